@@ -0,0 +1,51 @@
+import { Cart } from '../models/types.js';
+
+/**
+ * Storage backend for carts
+ *
+ * Implementations own TTL semantics: reads and writes refresh `expiresAt`,
+ * expired carts are returned with status EXPIRED for a grace period and
+ * treated as missing after it, and an optional sweeper evicts them in the
+ * background for hygiene only.
+ */
+export interface CartStore {
+  /**
+   * Store a new cart
+   */
+  create(cart: Cart): Promise<Cart>;
+
+  /**
+   * Get a cart by ID, refreshing TTL if not expired
+   * Returns the cart as EXPIRED during its grace period, and null after the
+   * grace period or if not found
+   */
+  get(id: string): Promise<Cart | null>;
+
+  /**
+   * Update an existing cart, refreshing TTL and incrementing its version
+   * Throws NotFoundError if cart doesn't exist or is past its grace period
+   * Throws CartStateError if the cart expired but is still in its grace period
+   * Throws ConflictError if the stored version differs from `cart.version`
+   */
+  update(cart: Cart): Promise<Cart>;
+
+  /**
+   * Delete a cart
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Get current cart count (for testing/monitoring)
+   */
+  size(): number;
+
+  /**
+   * Start the background sweeper for expired carts
+   */
+  startSweeper(): void;
+
+  /**
+   * Stop the background sweeper
+   */
+  stopSweeper(): void;
+}
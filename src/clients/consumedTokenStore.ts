@@ -0,0 +1,66 @@
+import { RehydrationWarning } from '../models/types.js';
+import { TtlStore } from './ttlStore.js';
+
+/**
+ * A token id is pending while its cart is being created, then records the
+ * cart it created and the warnings reported at the time
+ */
+export interface ConsumedToken {
+  cartId: string | null;
+  warnings: RehydrationWarning[];
+  expiresAt: number;
+}
+
+/**
+ * In-memory store of consumed rehydration token ids (`jti`) with a fixed TTL
+ *
+ * The TTL only needs to cover the longest token lifetime: after that the
+ * token is rejected as expired anyway.
+ */
+export class ConsumedTokenStore {
+  private readonly records: TtlStore<ConsumedToken>;
+
+  constructor(ttlMs: number) {
+    this.records = new TtlStore(ttlMs);
+  }
+
+  /**
+   * Get a live record by token id
+   * Returns null if expired or not found
+   */
+  get(jti: string): ConsumedToken | null {
+    return this.records.get(jti);
+  }
+
+  /**
+   * Reserve a token id for a rehydration that is about to run
+   */
+  begin(jti: string): void {
+    this.records.set(jti, { cartId: null, warnings: [] });
+  }
+
+  /**
+   * Record the cart a reserved token id created
+   */
+  complete(jti: string, cartId: string, warnings: RehydrationWarning[]): void {
+    const record = this.records.get(jti);
+    if (record) {
+      record.cartId = cartId;
+      record.warnings = warnings;
+    }
+  }
+
+  /**
+   * Release a reserved token id so the token can be used again
+   */
+  release(jti: string): void {
+    this.records.delete(jti);
+  }
+
+  /**
+   * Get current record count (for testing/monitoring)
+   */
+  size(): number {
+    return this.records.size();
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * In-memory coupon redemption counter for enforcing usage limits
+ * A redemption is an order placed with the coupon, not a cart it's applied to
+ */
+export class CouponRedemptionStore {
+  private counts = new Map<string, number>();
+
+  /**
+   * Whether a coupon is still under its limit, without counting a redemption
+   */
+  hasRemaining(code: string, maxRedemptions?: number): boolean {
+    return maxRedemptions === undefined || this.count(code) < maxRedemptions;
+  }
+
+  /**
+   * Count one redemption of a coupon if it's under its limit
+   * Returns false (and counts nothing) when the limit is reached
+   */
+  tryRedeem(code: string, maxRedemptions?: number): boolean {
+    const count = this.counts.get(code) ?? 0;
+    if (maxRedemptions !== undefined && count >= maxRedemptions) {
+      return false;
+    }
+
+    this.counts.set(code, count + 1);
+    return true;
+  }
+
+  /**
+   * Give back one redemption, e.g. when an order could not be placed
+   */
+  release(code: string): void {
+    const count = this.counts.get(code) ?? 0;
+    if (count <= 1) {
+      this.counts.delete(code);
+    } else {
+      this.counts.set(code, count - 1);
+    }
+  }
+
+  /**
+   * Current redemption count for a coupon
+   */
+  count(code: string): number {
+    return this.counts.get(code) ?? 0;
+  }
+}
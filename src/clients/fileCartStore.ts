@@ -0,0 +1,119 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { Cart } from '../models/types.js';
+import { SalesforceCartClient } from './salesforceCartClient.js';
+
+/**
+ * On-disk snapshot format
+ */
+interface CartSnapshot {
+  carts: Cart[];
+}
+
+/**
+ * File-backed cart store for local development
+ *
+ * Keeps the same TTL and sweeper semantics as the in-memory client, but
+ * writes a JSON snapshot after every change so carts survive a restart.
+ * Writes go to a temp file and are renamed into place, so a crash mid-write
+ * never leaves a truncated snapshot behind.
+ */
+export class FileCartStore extends SalesforceCartClient {
+  constructor(
+    private readonly filePath: string,
+    ttlMs: number,
+    sweepIntervalMs?: number,
+    sweepScanLimit?: number,
+    sweepBudgetMs?: number,
+    expiredGraceMs?: number
+  ) {
+    super(ttlMs, sweepIntervalMs, sweepScanLimit, sweepBudgetMs, expiredGraceMs);
+    this.load();
+  }
+
+  async create(cart: Cart): Promise<Cart> {
+    const created = await super.create(cart);
+    this.persist();
+    return created;
+  }
+
+  async get(id: string): Promise<Cart | null> {
+    const cart = await super.get(id);
+    this.persist();
+    return cart;
+  }
+
+  async update(cart: Cart): Promise<Cart> {
+    try {
+      return await super.update(cart);
+    } finally {
+      // Persist on failure too: an expired cart was evicted
+      this.persist();
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await super.delete(id);
+    this.persist();
+  }
+
+  clear(): void {
+    super.clear();
+    this.persist();
+  }
+
+  protected sweep(): void {
+    const before = this.size();
+    super.sweep();
+    if (this.size() !== before) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Load carts from disk, skipping any whose grace period ended while we
+   * were down
+   */
+  private load(): void {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    const snapshot = JSON.parse(
+      readFileSync(this.filePath, 'utf-8')
+    ) as CartSnapshot;
+
+    for (const raw of snapshot.carts) {
+      const cart = reviveCart(raw);
+      if (!this.isEvictable(cart)) {
+        this.carts.set(cart.id, cart);
+      }
+    }
+  }
+
+  /**
+   * Write all carts to disk atomically
+   */
+  private persist(): void {
+    const snapshot: CartSnapshot = { carts: [...this.carts.values()] };
+    const tmpPath = `${this.filePath}.tmp`;
+
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(tmpPath, JSON.stringify(snapshot));
+    renameSync(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Restore Date fields lost in JSON serialization
+ * Carts saved before the saved-for-later list existed get an empty one
+ */
+function reviveCart(raw: Cart): Cart {
+  return {
+    ...raw,
+    savedItems: raw.savedItems ?? [],
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+    expiresAt: new Date(raw.expiresAt),
+  };
+}
@@ -0,0 +1,69 @@
+import { TtlStore } from './ttlStore.js';
+
+/**
+ * Response captured for an idempotent request
+ */
+export interface StoredResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * A key is pending while the first request runs, then holds its response
+ */
+export interface IdempotencyRecord {
+  fingerprint: string;
+  response: StoredResponse | null;
+  expiresAt: number;
+}
+
+/**
+ * In-memory store of Idempotency-Key records with a fixed TTL
+ */
+export class IdempotencyStore {
+  private readonly records: TtlStore<IdempotencyRecord>;
+
+  constructor(ttlMs: number) {
+    this.records = new TtlStore(ttlMs);
+  }
+
+  /**
+   * Get a live record by key
+   * Returns null if expired or not found
+   */
+  get(key: string): IdempotencyRecord | null {
+    return this.records.get(key);
+  }
+
+  /**
+   * Reserve a key for a request that is about to run
+   */
+  begin(key: string, fingerprint: string): void {
+    this.records.set(key, { fingerprint, response: null });
+  }
+
+  /**
+   * Store the response for a reserved key
+   */
+  complete(key: string, response: StoredResponse): void {
+    const record = this.records.get(key);
+    if (record) {
+      record.response = response;
+    }
+  }
+
+  /**
+   * Release a reserved key so the request can be retried
+   */
+  release(key: string): void {
+    this.records.delete(key);
+  }
+
+  /**
+   * Get current record count (for testing/monitoring)
+   */
+  size(): number {
+    return this.records.size();
+  }
+}
@@ -0,0 +1,63 @@
+import { Order } from '../models/types.js';
+import { ConflictError } from '../lib/errors.js';
+
+/**
+ * Storage backend for orders
+ *
+ * Orders are write-once: they never expire and can't be updated.
+ */
+export interface OrderStore {
+  /**
+   * Store a new order
+   * Throws ConflictError if an order with the same ID exists
+   */
+  create(order: Order): Promise<Order>;
+
+  /**
+   * Get an order by ID
+   * Returns null if not found
+   */
+  get(id: string): Promise<Order | null>;
+
+  /**
+   * Get current order count (for testing/monitoring)
+   */
+  size(): number;
+}
+
+/**
+ * In-memory order store
+ * Stored orders are deep-frozen so nothing can change them after checkout
+ */
+export class InMemoryOrderStore implements OrderStore {
+  private orders = new Map<string, Order>();
+
+  async create(order: Order): Promise<Order> {
+    if (this.orders.has(order.id)) {
+      throw new ConflictError(`Order ${order.id} already exists`);
+    }
+
+    const frozen = deepFreeze(structuredClone(order));
+    this.orders.set(order.id, frozen);
+    return frozen;
+  }
+
+  async get(id: string): Promise<Order | null> {
+    return this.orders.get(id) ?? null;
+  }
+
+  size(): number {
+    return this.orders.size;
+  }
+}
+
+/**
+ * Freeze an object and every object it references
+ */
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+}
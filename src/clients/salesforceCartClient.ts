@@ -1,18 +1,23 @@
 import { Cart } from '../models/types.js';
-import { NotFoundError } from '../lib/errors.js';
+import { CartStateError, ConflictError, NotFoundError } from '../lib/errors.js';
+import { CartStore } from './cartStore.js';
 
 /**
  * In-memory Salesforce-style cart client with TTL and bounded sweeper
+ *
+ * Carts past their TTL are kept for `expiredGraceMs` with status EXPIRED so
+ * clients can tell "expired" from "never existed"; after that they're evicted.
  */
-export class SalesforceCartClient {
-  private carts = new Map<string, Cart>();
+export class SalesforceCartClient implements CartStore {
+  protected carts = new Map<string, Cart>();
   private sweepInterval: NodeJS.Timeout | null = null;
 
   constructor(
     private readonly ttlMs: number,
     private readonly sweepIntervalMs: number = 60_000,
     private readonly sweepScanLimit: number = 100,
-    private readonly sweepBudgetMs: number = 50
+    private readonly sweepBudgetMs: number = 50,
+    private readonly expiredGraceMs: number = 0
   ) {}
 
   /**
@@ -25,7 +30,8 @@ export class SalesforceCartClient {
 
   /**
    * Get a cart by ID, refreshing TTL if not expired
-   * Returns null if expired or not found
+   * Carts in their expiry grace period are returned as EXPIRED without a
+   * refresh; returns null if past the grace period or not found
    */
   async get(id: string): Promise<Cart | null> {
     const cart = this.carts.get(id);
@@ -34,10 +40,15 @@ export class SalesforceCartClient {
     }
 
     // Lazy expiration check
-    if (this.isExpired(cart)) {
+    if (this.isEvictable(cart)) {
       this.carts.delete(id);
       return null;
     }
+    if (this.isExpired(cart)) {
+      const expired: Cart = { ...cart, status: 'EXPIRED' };
+      this.carts.set(id, expired);
+      return expired;
+    }
 
     // Refresh TTL
     const refreshed = this.refreshTtl(cart);
@@ -46,8 +57,10 @@ export class SalesforceCartClient {
   }
 
   /**
-   * Update an existing cart, refreshing TTL
-   * Throws NotFoundError if cart doesn't exist or is expired
+   * Update an existing cart, refreshing TTL and incrementing its version
+   * Throws NotFoundError if cart doesn't exist or is past its grace period
+   * Throws CartStateError if the cart expired but is still in its grace period
+   * Throws ConflictError if the cart was changed since the caller read it
    */
   async update(cart: Cart): Promise<Cart> {
     const existing = this.carts.get(cart.id);
@@ -55,12 +68,20 @@ export class SalesforceCartClient {
       throw new NotFoundError('Cart not found');
     }
 
-    if (this.isExpired(existing)) {
+    if (this.isEvictable(existing)) {
       this.carts.delete(cart.id);
       throw new NotFoundError('Cart expired');
     }
+    if (this.isExpired(existing)) {
+      throw new CartStateError('EXPIRED');
+    }
 
-    const refreshed = this.refreshTtl(cart);
+    // Compare-and-set: reject writes based on a stale read
+    if (existing.version !== cart.version) {
+      throw new ConflictError('Cart was modified by another request');
+    }
+
+    const refreshed = this.refreshTtl({ ...cart, version: cart.version + 1 });
     this.carts.set(cart.id, refreshed);
     return refreshed;
   }
@@ -75,10 +96,17 @@ export class SalesforceCartClient {
   /**
    * Check if a cart is expired
    */
-  private isExpired(cart: Cart): boolean {
+  protected isExpired(cart: Cart): boolean {
     return Date.now() > cart.expiresAt.getTime();
   }
 
+  /**
+   * Check if an expired cart is past its grace period and can be evicted
+   */
+  protected isEvictable(cart: Cart): boolean {
+    return Date.now() > cart.expiresAt.getTime() + this.expiredGraceMs;
+  }
+
   /**
    * Refresh the TTL on a cart
    */
@@ -92,15 +120,15 @@ export class SalesforceCartClient {
   }
 
   /**
-   * Bounded periodic sweeper for expired carts
+   * Bounded periodic sweeper for carts past their grace period
    * Scans up to sweepScanLimit entries or runs for up to sweepBudgetMs
    */
-  private sweep(): void {
+  protected sweep(): void {
     const startTime = Date.now();
     let scanned = 0;
 
     for (const [id, cart] of this.carts.entries()) {
-      if (this.isExpired(cart)) {
+      if (this.isEvictable(cart)) {
         this.carts.delete(id);
       }
 
@@ -0,0 +1,47 @@
+import { Cart } from '../models/types.js';
+import { TtlStore } from './ttlStore.js';
+
+/**
+ * A cart as it was when it was shared
+ */
+export interface SharedSnapshot {
+  cart: Cart;
+  sharedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * In-memory store of shared cart snapshots with a fixed TTL
+ *
+ * Snapshots live here rather than in the share token so the link carries no
+ * customer data.
+ */
+export class SharedCartStore {
+  private readonly snapshots: TtlStore<SharedSnapshot>;
+
+  constructor(ttlMs: number) {
+    this.snapshots = new TtlStore(ttlMs);
+  }
+
+  /**
+   * Get a live snapshot by share id
+   * Returns null if expired or not found
+   */
+  get(shareId: string): SharedSnapshot | null {
+    return this.snapshots.get(shareId);
+  }
+
+  /**
+   * Store a snapshot of a cart under a new share id
+   */
+  save(shareId: string, cart: Cart): SharedSnapshot {
+    return this.snapshots.set(shareId, { cart, sharedAt: Date.now() });
+  }
+
+  /**
+   * Get current snapshot count (for testing/monitoring)
+   */
+  size(): number {
+    return this.snapshots.size();
+  }
+}
@@ -0,0 +1,56 @@
+import { TtlStore } from './ttlStore.js';
+
+/**
+ * A cart's revocation count and when its tokens were last revoked
+ */
+interface Revocation {
+  generation: number;
+  revokedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * In-memory per-cart counters for revoking rehydration tokens
+ *
+ * Each token carries its cart's counter from when it was issued; revoking
+ * bumps the counter, which rejects every token with a lower one. Tokens the
+ * cart issues afterwards carry the new counter and work again, however soon
+ * they follow. Like ConsumedTokenStore, entries only need to outlive the
+ * longest token lifetime, so issuing a token keeps its cart's entry alive.
+ */
+export class TokenRevocationStore {
+  private readonly revocations: TtlStore<Revocation>;
+
+  constructor(ttlMs: number) {
+    this.revocations = new TtlStore(ttlMs);
+  }
+
+  /**
+   * Revoke every token issued for a cart so far
+   * Returns the revocation time
+   */
+  revoke(cartId: string): number {
+    const generation = (this.revocations.get(cartId)?.generation ?? 0) + 1;
+    return this.revocations.set(cartId, { generation, revokedAt: Date.now() }).revokedAt;
+  }
+
+  /**
+   * Counter to put in a new token for a cart
+   */
+  generation(cartId: string): number {
+    const revocation = this.revocations.get(cartId);
+    if (!revocation) {
+      return 0;
+    }
+    this.revocations.set(cartId, revocation);
+    return revocation.generation;
+  }
+
+  /**
+   * Whether a token issued for a cart with counter `generation` has been
+   * revoked; tokens without one count as 0
+   */
+  isRevoked(cartId: string, generation = 0): boolean {
+    return generation < (this.revocations.get(cartId)?.generation ?? 0);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * A record that stops being returned once `expiresAt` has passed
+ */
+export interface Expiring {
+  expiresAt: number;
+}
+
+/**
+ * In-memory map of records with a fixed TTL
+ *
+ * Every record gets the same TTL and a write moves its key to the back, so Map
+ * insertion order is also expiry order: pruning only ever needs to look at the
+ * oldest entries.
+ */
+export class TtlStore<T extends Expiring> {
+  private records = new Map<string, T>();
+
+  constructor(private readonly ttlMs: number) {}
+
+  /**
+   * Get a live record by key
+   * Returns null if expired or not found
+   */
+  get(key: string): T | null {
+    const record = this.records.get(key);
+    if (!record) {
+      return null;
+    }
+
+    if (Date.now() > record.expiresAt) {
+      this.records.delete(key);
+      return null;
+    }
+
+    return record;
+  }
+
+  /**
+   * Store a record under a key, replacing any earlier one, expiring a TTL
+   * from now
+   * Returns the stored record
+   */
+  set(key: string, value: Omit<T, 'expiresAt'>): T {
+    this.prune();
+    const record = { ...value, expiresAt: Date.now() + this.ttlMs } as T;
+    this.records.delete(key);
+    this.records.set(key, record);
+    return record;
+  }
+
+  /**
+   * Remove a record
+   */
+  delete(key: string): void {
+    this.records.delete(key);
+  }
+
+  /**
+   * Get current record count (for testing/monitoring)
+   */
+  size(): number {
+    return this.records.size;
+  }
+
+  /**
+   * Drop expired records from the front of the map
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, record] of this.records) {
+      if (now <= record.expiresAt) {
+        break;
+      }
+      this.records.delete(key);
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { KeyRing } from '../lib/keyRing.js';
+
+/**
+ * Development-only access token secret, used when none is configured
+ */
+export const DEV_AUTH_SECRET = 'dev-auth-secret-min-32-chars-key';
+
+/**
+ * Build the access token key ring from `AUTH_SECRET`
+ * Without it the development secret is used, except when
+ * `NODE_ENV=production`, where startup fails instead
+ */
+export function loadAuthKeys(env: NodeJS.ProcessEnv = process.env): KeyRing {
+  if (!env.AUTH_SECRET && env.NODE_ENV === 'production') {
+    throw new Error('Refusing to start in production without AUTH_SECRET');
+  }
+  return new KeyRing({ default: env.AUTH_SECRET || DEV_AUTH_SECRET }, 'default');
+}
@@ -0,0 +1,129 @@
+import { readFileSync } from 'fs';
+import { ChargeType, Product, ProductType } from '../models/types.js';
+import { UnknownSkuError } from '../lib/errors.js';
+
+/** Every product type, for validating catalog entries, rules and queries */
+export const PRODUCT_TYPES: readonly ProductType[] = ['plan', 'addon', 'device', 'accessory'];
+const CHARGE_TYPES: readonly ChargeType[] = ['recurring', 'oneTime'];
+
+/**
+ * Default catalog file, resolved relative to this module so it works from
+ * both src/ and dist/
+ */
+const DEFAULT_CATALOG_PATH = new URL('../../data/catalog.json', import.meta.url);
+
+/**
+ * Product catalog: the source of truth for which SKUs exist and what they cost
+ */
+export class Catalog {
+  private readonly products = new Map<string, Product>();
+
+  constructor(products: Product[]) {
+    for (const product of products) {
+      if (this.products.has(product.sku)) {
+        throw new Error(`Duplicate SKU in catalog: ${product.sku}`);
+      }
+      this.products.set(product.sku, product);
+    }
+  }
+
+  /**
+   * Get a product by SKU, including inactive products
+   */
+  get(sku: string): Product | undefined {
+    return this.products.get(sku);
+  }
+
+  /**
+   * Get a product that can be added to a cart
+   * Throws UnknownSkuError if the SKU doesn't exist or is inactive
+   */
+  requireActive(sku: string): Product {
+    const product = this.products.get(sku);
+    if (!product || !product.active) {
+      throw new UnknownSkuError(`Unknown or unavailable SKU: ${sku}`);
+    }
+    return product;
+  }
+
+  /**
+   * Currencies that at least one product is priced in
+   */
+  currencies(): string[] {
+    const currencies = new Set<string>();
+    for (const product of this.products.values()) {
+      Object.keys(product.prices).forEach((currency) => currencies.add(currency));
+    }
+    return [...currencies];
+  }
+
+  /**
+   * List all products in catalog order
+   */
+  list(): Product[] {
+    return [...this.products.values()];
+  }
+}
+
+/**
+ * Load a catalog from a JSON file of the form `{ "products": [...] }`
+ * Throws on malformed entries so a bad file fails at startup, not mid-request
+ */
+export function loadCatalog(path: string | URL): Catalog {
+  const data = JSON.parse(readFileSync(path, 'utf-8')) as { products?: unknown };
+
+  if (!Array.isArray(data.products)) {
+    throw new Error(`Catalog ${path} must contain a "products" array`);
+  }
+
+  return new Catalog(data.products.map((entry) => parseProduct(entry, path)));
+}
+
+/**
+ * Validate a single catalog entry
+ */
+function parseProduct(entry: unknown, path: string | URL): Product {
+  const p = (entry ?? {}) as Record<string, unknown>;
+  const where = `Catalog ${path}, SKU ${String(p.sku)}`;
+
+  if (typeof p.sku !== 'string' || p.sku.trim().length === 0) {
+    throw new Error(`Catalog ${path}: every product needs a non-empty sku`);
+  }
+  if (typeof p.name !== 'string') {
+    throw new Error(`${where}: name must be a string`);
+  }
+  if (!PRODUCT_TYPES.includes(p.type as ProductType)) {
+    throw new Error(`${where}: type must be one of ${PRODUCT_TYPES.join(', ')}`);
+  }
+  if (!CHARGE_TYPES.includes(p.chargeType as ChargeType)) {
+    throw new Error(`${where}: chargeType must be one of ${CHARGE_TYPES.join(', ')}`);
+  }
+  if (typeof p.active !== 'boolean') {
+    throw new Error(`${where}: active must be a boolean`);
+  }
+  if (!p.prices || typeof p.prices !== 'object') {
+    throw new Error(`${where}: prices must map currencies to amounts`);
+  }
+  for (const [currency, price] of Object.entries(p.prices)) {
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      throw new Error(`${where}: ${currency} is not an ISO 4217 code`);
+    }
+    if (!Number.isInteger(price) || (price as number) < 0) {
+      throw new Error(`${where}: ${currency} price must be a non-negative integer`);
+    }
+  }
+
+  return {
+    sku: p.sku,
+    name: p.name,
+    type: p.type as ProductType,
+    chargeType: p.chargeType as ChargeType,
+    active: p.active,
+    prices: p.prices as Record<string, number>,
+  };
+}
+
+/**
+ * Catalog loaded from CATALOG_PATH or the bundled default
+ */
+export const catalog = loadCatalog(process.env.CATALOG_PATH || DEFAULT_CATALOG_PATH);
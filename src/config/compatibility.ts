@@ -0,0 +1,105 @@
+import { readFileSync } from 'fs';
+import { CompatibilityRule, ItemSelector, ProductType } from '../models/types.js';
+import { PRODUCT_TYPES } from './catalog.js';
+
+/**
+ * Default compatibility rules file, found like the catalog's
+ */
+const DEFAULT_COMPATIBILITY_PATH = new URL(
+  '../../data/compatibility.json',
+  import.meta.url
+);
+
+/**
+ * Load compatibility rules from a JSON file of the form `{ "rules": [...] }`
+ * Throws on malformed entries, like loadCatalog
+ */
+export function loadCompatibilityRules(path: string | URL): CompatibilityRule[] {
+  const data = JSON.parse(readFileSync(path, 'utf-8')) as { rules?: unknown };
+
+  if (!Array.isArray(data.rules)) {
+    throw new Error(`Compatibility rules ${path} must contain a "rules" array`);
+  }
+
+  const ids = new Set<string>();
+  return data.rules.map((entry) => {
+    const rule = parseRule(entry, path);
+    if (ids.has(rule.id)) {
+      throw new Error(`Compatibility rules ${path}: duplicate rule ${rule.id}`);
+    }
+    ids.add(rule.id);
+    return rule;
+  });
+}
+
+/**
+ * Validate a single rule entry
+ */
+function parseRule(entry: unknown, path: string | URL): CompatibilityRule {
+  const r = (entry ?? {}) as Record<string, unknown>;
+  const where = `Compatibility rules ${path}, rule ${String(r.id)}`;
+
+  if (typeof r.id !== 'string' || r.id.length === 0) {
+    throw new Error(`Compatibility rules ${path}: every rule needs an id`);
+  }
+  if (typeof r.description !== 'string') {
+    throw new Error(`${where}: description must be a string`);
+  }
+
+  switch (r.type) {
+    case 'requires':
+      return {
+        id: r.id,
+        description: r.description,
+        type: 'requires',
+        when: parseSelector(r.when, `${where}, when`),
+        requires: parseSelector(r.requires, `${where}, requires`),
+      };
+    case 'exclusive':
+      return {
+        id: r.id,
+        description: r.description,
+        type: 'exclusive',
+        among: parseSelector(r.among, `${where}, among`),
+      };
+    default:
+      throw new Error(`${where}: unknown rule type ${String(r.type)}`);
+  }
+}
+
+/**
+ * Validate an item selector; at least one of skus / productTypes is required
+ */
+function parseSelector(entry: unknown, where: string): ItemSelector {
+  const s = (entry ?? {}) as Record<string, unknown>;
+  const isStringArray = (value: unknown) =>
+    Array.isArray(value) && value.every((v) => typeof v === 'string');
+
+  if (s.skus === undefined && s.productTypes === undefined) {
+    throw new Error(`${where}: needs skus or productTypes`);
+  }
+  if (s.skus !== undefined && !isStringArray(s.skus)) {
+    throw new Error(`${where}: skus must be an array of strings`);
+  }
+  if (
+    s.productTypes !== undefined &&
+    !(
+      isStringArray(s.productTypes) &&
+      (s.productTypes as string[]).every((t) => PRODUCT_TYPES.includes(t as ProductType))
+    )
+  ) {
+    throw new Error(`${where}: productTypes must be among ${PRODUCT_TYPES.join(', ')}`);
+  }
+
+  return {
+    skus: s.skus as string[] | undefined,
+    productTypes: s.productTypes as ProductType[] | undefined,
+  };
+}
+
+/**
+ * Rules loaded from COMPATIBILITY_RULES_PATH or the bundled default
+ */
+export const compatibilityRules = loadCompatibilityRules(
+  process.env.COMPATIBILITY_RULES_PATH || DEFAULT_COMPATIBILITY_PATH
+);
@@ -0,0 +1,29 @@
+/**
+ * Minimum customer age, in whole years, for carts that sign a contract
+ * (device financing)
+ */
+export const MIN_CONTRACT_AGE = Number(process.env.MIN_CONTRACT_AGE || 18);
+
+if (!Number.isInteger(MIN_CONTRACT_AGE) || MIN_CONTRACT_AGE < 0) {
+  throw new Error('MIN_CONTRACT_AGE must be a non-negative integer');
+}
+
+/**
+ * Postal code format per ISO 3166-1 alpha-2 country, matched against the
+ * upper-cased code
+ *
+ * Countries not listed here accept any 1-10 letters, digits, spaces and
+ * hyphens. Add a country before selling into it.
+ */
+export const POSTAL_CODE_FORMATS: Record<string, { pattern: RegExp; example: string }> = {
+  CA: {
+    pattern: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/,
+    example: 'K1A 0B1',
+  },
+  US: { pattern: /^\d{5}(-\d{4})?$/, example: '94105' },
+  GB: { pattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/, example: 'SW1A 1AA' },
+  FR: { pattern: /^\d{5}$/, example: '75008' },
+  DE: { pattern: /^\d{5}$/, example: '10115' },
+  MX: { pattern: /^\d{5}$/, example: '06600' },
+  AU: { pattern: /^\d{4}$/, example: '2000' },
+};
@@ -0,0 +1,7 @@
+/**
+ * Device financing terms on offer, in months
+ *
+ * Financing is interest-free: the amount financed is split evenly across the
+ * term. Confirm terms with finance before adding new ones.
+ */
+export const FINANCING_TERMS_MONTHS: readonly number[] = [24, 36];
@@ -1,26 +1,36 @@
+import { catalog } from './catalog.js';
+import { Product } from '../models/types.js';
+import { PriceUnavailableError, UnknownSkuError } from '../lib/errors.js';
+
 /**
- * Mock pricing data for demo/testing
- * In production, this would be loaded from a pricing service or database
+ * Currency for carts created without one
  */
+export const DEFAULT_CURRENCY = process.env.DEFAULT_CURRENCY || 'CAD';
 
-export const MOCK_PRICES: Record<string, number> = {
-  'PLAN-5G-PLUS': 2500,
-  'PLAN-BASIC': 1500,
-  'ADDON-ROAM': 500,
-  'ADDON-DATA': 300,
-};
-
-export const DEFAULT_PRICE = 1000;
+if (!catalog.currencies().includes(DEFAULT_CURRENCY)) {
+  throw new Error(`No catalog prices in DEFAULT_CURRENCY ${DEFAULT_CURRENCY}`);
+}
 
 /**
- * Get price for a SKU, falling back to default if not found
+ * Get the catalog product for a SKU that is already in a cart
+ * Inactive products are returned so existing carts still total correctly
  */
-export function getPrice(sku: string): number {
-  return MOCK_PRICES[sku] ?? DEFAULT_PRICE;
+export function getProduct(sku: string): Product {
+  const product = catalog.get(sku);
+  if (!product) {
+    throw new UnknownSkuError(`Unknown SKU: ${sku}`);
+  }
+  return product;
 }
 
 /**
- * Tax rate loaded from environment or default to 13%
+ * Get the price of a SKU in a currency, in minor units
+ * Throws PriceUnavailableError if the SKU has no price in that currency
  */
-export const TAX_RATE = parseFloat(process.env.TAX_RATE || '0.13');
-
+export function getPrice(sku: string, currency: string): number {
+  const price = getProduct(sku).prices[currency];
+  if (price === undefined) {
+    throw new PriceUnavailableError(`${sku} is not available in ${currency}`);
+  }
+  return price;
+}
@@ -0,0 +1,204 @@
+import { readFileSync } from 'fs';
+import { Coupon, Promotion, PromotionRule } from '../models/types.js';
+
+/**
+ * Default promotions file, found like the catalog's
+ */
+const DEFAULT_PROMOTIONS_PATH = new URL('../../data/promotions.json', import.meta.url);
+
+/**
+ * Promotion definitions and the coupon codes that unlock them
+ */
+export class PromotionCatalog {
+  private readonly promotions = new Map<string, Promotion>();
+  private readonly coupons = new Map<string, Coupon>();
+
+  constructor(promotions: Promotion[], coupons: Coupon[]) {
+    for (const promotion of promotions) {
+      this.promotions.set(promotion.id, promotion);
+    }
+    for (const coupon of coupons) {
+      if (!this.promotions.has(coupon.promotionId)) {
+        throw new Error(
+          `Coupon ${coupon.code} references unknown promotion ${coupon.promotionId}`
+        );
+      }
+      this.coupons.set(coupon.code.toUpperCase(), coupon);
+    }
+  }
+
+  /**
+   * Get a promotion by ID
+   */
+  getPromotion(id: string): Promotion | undefined {
+    return this.promotions.get(id);
+  }
+
+  /**
+   * Get a coupon by code (case-insensitive)
+   */
+  getCoupon(code: string): Coupon | undefined {
+    return this.coupons.get(code.toUpperCase());
+  }
+
+  /**
+   * Promotions that apply without a coupon
+   */
+  automatic(): Promotion[] {
+    return [...this.promotions.values()].filter((p) => p.automatic);
+  }
+}
+
+/**
+ * Check whether a coupon's validity window includes a point in time
+ */
+export function isCouponValidAt(coupon: Coupon, at: Date): boolean {
+  if (coupon.validFrom && at < coupon.validFrom) {
+    return false;
+  }
+  if (coupon.validUntil && at > coupon.validUntil) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Load promotions from a JSON file of the form `{ "promotions": [...], "coupons": [...] }`
+ * Throws on malformed entries, like loadCatalog
+ */
+export function loadPromotions(path: string | URL): PromotionCatalog {
+  const data = JSON.parse(readFileSync(path, 'utf-8')) as {
+    promotions?: unknown;
+    coupons?: unknown;
+  };
+
+  if (!Array.isArray(data.promotions) || !Array.isArray(data.coupons)) {
+    throw new Error(`Promotions ${path} must contain "promotions" and "coupons" arrays`);
+  }
+
+  return new PromotionCatalog(
+    data.promotions.map((entry) => parsePromotion(entry, path)),
+    data.coupons.map((entry) => parseCoupon(entry, path))
+  );
+}
+
+/**
+ * Validate a single promotion entry
+ */
+function parsePromotion(entry: unknown, path: string | URL): Promotion {
+  const p = (entry ?? {}) as Record<string, unknown>;
+  const where = `Promotions ${path}, promotion ${String(p.id)}`;
+
+  if (typeof p.id !== 'string' || p.id.length === 0) {
+    throw new Error(`Promotions ${path}: every promotion needs an id`);
+  }
+  if (typeof p.description !== 'string') {
+    throw new Error(`${where}: description must be a string`);
+  }
+  if (typeof p.automatic !== 'boolean') {
+    throw new Error(`${where}: automatic must be a boolean`);
+  }
+
+  return {
+    id: p.id,
+    description: p.description,
+    automatic: p.automatic,
+    rule: parseRule(p.rule, where),
+  };
+}
+
+/**
+ * Validate a promotion rule
+ */
+function parseRule(entry: unknown, where: string): PromotionRule {
+  const r = (entry ?? {}) as Record<string, unknown>;
+  const isPositiveInt = (value: unknown) =>
+    Number.isInteger(value) && (value as number) > 0;
+  const isPercent = (value: unknown) =>
+    typeof value === 'number' && value > 0 && value <= 100;
+
+  switch (r.type) {
+    case 'percentage':
+      if (!isPercent(r.percent)) {
+        throw new Error(`${where}: percent must be in (0, 100]`);
+      }
+      return r as unknown as PromotionRule;
+    case 'fixed':
+      if (
+        !r.amounts ||
+        typeof r.amounts !== 'object' ||
+        !Object.values(r.amounts).every(isPositiveInt)
+      ) {
+        throw new Error(`${where}: amounts must map currencies to positive integers`);
+      }
+      return r as unknown as PromotionRule;
+    case 'buyXGetY':
+      if (typeof r.sku !== 'string' || !isPositiveInt(r.buy) || !isPositiveInt(r.get)) {
+        throw new Error(`${where}: buyXGetY needs sku, buy and get`);
+      }
+      return r as unknown as PromotionRule;
+    case 'bundle':
+      if (!Array.isArray(r.skus) || r.skus.length < 2 || !isPercent(r.percent)) {
+        throw new Error(`${where}: bundle needs at least two skus and a percent`);
+      }
+      return r as unknown as PromotionRule;
+    case 'multiLine':
+      if (
+        !Number.isInteger(r.minLines) ||
+        (r.minLines as number) < 2 ||
+        !isPercent(r.percent)
+      ) {
+        throw new Error(`${where}: multiLine needs minLines >= 2 and a percent`);
+      }
+      return r as unknown as PromotionRule;
+    default:
+      throw new Error(`${where}: unknown rule type ${String(r.type)}`);
+  }
+}
+
+/**
+ * Validate a single coupon entry
+ */
+function parseCoupon(entry: unknown, path: string | URL): Coupon {
+  const c = (entry ?? {}) as Record<string, unknown>;
+  const where = `Promotions ${path}, coupon ${String(c.code)}`;
+
+  if (typeof c.code !== 'string' || c.code.length === 0) {
+    throw new Error(`Promotions ${path}: every coupon needs a code`);
+  }
+  if (typeof c.promotionId !== 'string') {
+    throw new Error(`${where}: promotionId must be a string`);
+  }
+  if (
+    c.maxRedemptions !== undefined &&
+    !(Number.isInteger(c.maxRedemptions) && (c.maxRedemptions as number) > 0)
+  ) {
+    throw new Error(`${where}: maxRedemptions must be a positive integer`);
+  }
+
+  const parseDate = (value: unknown, field: string): Date | undefined => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const date = new Date(value as string);
+    if (typeof value !== 'string' || Number.isNaN(date.getTime())) {
+      throw new Error(`${where}: ${field} must be an ISO 8601 date`);
+    }
+    return date;
+  };
+
+  return {
+    code: c.code.toUpperCase(),
+    promotionId: c.promotionId,
+    validFrom: parseDate(c.validFrom, 'validFrom'),
+    validUntil: parseDate(c.validUntil, 'validUntil'),
+    maxRedemptions: c.maxRedemptions as number | undefined,
+  };
+}
+
+/**
+ * Promotions loaded from PROMOTIONS_PATH or the bundled default
+ */
+export const promotionCatalog = loadPromotions(
+  process.env.PROMOTIONS_PATH || DEFAULT_PROMOTIONS_PATH
+);
@@ -0,0 +1,71 @@
+import { KeyRing } from '../lib/keyRing.js';
+import type { TokenFormat } from '../lib/rehydration.js';
+
+/**
+ * Development-only signing secret, used when no keys are configured
+ */
+export const DEV_REHYDRATION_SECRET = 'dev-secret-min-32-chars-long-key';
+
+/**
+ * Build the rehydration key ring from the environment
+ *
+ * - `REHYDRATION_KEYS` lists `kid:secret` pairs separated by commas;
+ *   `REHYDRATION_ACTIVE_KID` picks the signing key and may be omitted when
+ *   there's only one
+ * - Otherwise `REHYDRATION_SECRET` is used as the single key `default`
+ * - Otherwise the development secret is used, except when
+ *   `NODE_ENV=production`, where startup fails instead
+ */
+export function loadRehydrationKeys(env: NodeJS.ProcessEnv = process.env): KeyRing {
+  let keys: Record<string, string>;
+
+  if (env.REHYDRATION_KEYS) {
+    keys = {};
+    for (const entry of env.REHYDRATION_KEYS.split(',')) {
+      const separator = entry.indexOf(':');
+      if (separator <= 0) {
+        throw new Error('REHYDRATION_KEYS entries must look like kid:secret');
+      }
+      const kid = entry.slice(0, separator).trim();
+      if (keys[kid] !== undefined) {
+        throw new Error(`REHYDRATION_KEYS lists key ${kid} twice`);
+      }
+      keys[kid] = entry.slice(separator + 1).trim();
+    }
+  } else {
+    keys = { default: env.REHYDRATION_SECRET || DEV_REHYDRATION_SECRET };
+  }
+
+  const kids = Object.keys(keys);
+  const activeKid = env.REHYDRATION_ACTIVE_KID || (kids.length === 1 ? kids[0] : undefined);
+  if (!activeKid) {
+    throw new Error('REHYDRATION_ACTIVE_KID is required when there are several keys');
+  }
+
+  if (
+    env.NODE_ENV === 'production' &&
+    Object.values(keys).includes(DEV_REHYDRATION_SECRET)
+  ) {
+    throw new Error(
+      'Refusing to start in production with the development rehydration secret; ' +
+        'set REHYDRATION_KEYS or REHYDRATION_SECRET'
+    );
+  }
+
+  return new KeyRing(keys, activeKid);
+}
+
+/**
+ * Format new rehydration tokens are issued in, from `REHYDRATION_TOKEN_FORMAT`
+ * Both formats are always accepted, so switching is safe while older tokens
+ * are still outstanding
+ */
+export function loadTokenFormat(env: NodeJS.ProcessEnv = process.env): TokenFormat {
+  const format = env.REHYDRATION_TOKEN_FORMAT || 'signed';
+  if (format !== 'signed' && format !== 'encrypted') {
+    throw new Error(
+      `Unknown REHYDRATION_TOKEN_FORMAT "${format}" (expected signed or encrypted)`
+    );
+  }
+  return format;
+}
@@ -0,0 +1,45 @@
+import { TaxRule } from '../models/types.js';
+
+/**
+ * Sales tax rules per jurisdiction, keyed by `${country}-${province}`
+ *
+ * Rates follow the Canadian GST/HST/PST structure. Exemptions are by product
+ * type and are illustrative; confirm with finance before going live.
+ */
+export const TAX_RULES: Record<string, TaxRule[]> = {
+  'CA-AB': [{ name: 'GST', rate: 0.05 }],
+  'CA-BC': [
+    { name: 'GST', rate: 0.05 },
+    { name: 'PST', rate: 0.07 },
+  ],
+  'CA-MB': [
+    { name: 'GST', rate: 0.05 },
+    { name: 'RST', rate: 0.07, exemptTypes: ['device'] },
+  ],
+  'CA-NB': [{ name: 'HST', rate: 0.15 }],
+  'CA-NL': [{ name: 'HST', rate: 0.15 }],
+  'CA-NS': [{ name: 'HST', rate: 0.14 }],
+  'CA-NT': [{ name: 'GST', rate: 0.05 }],
+  'CA-NU': [{ name: 'GST', rate: 0.05 }],
+  'CA-ON': [{ name: 'HST', rate: 0.13 }],
+  'CA-PE': [{ name: 'HST', rate: 0.15 }],
+  'CA-QC': [
+    { name: 'GST', rate: 0.05 },
+    { name: 'QST', rate: 0.09975 },
+  ],
+  'CA-SK': [
+    { name: 'GST', rate: 0.05 },
+    { name: 'PST', rate: 0.06 },
+  ],
+  'CA-YT': [{ name: 'GST', rate: 0.05 }],
+};
+
+/**
+ * Jurisdiction used when a cart has no service address yet
+ */
+export const DEFAULT_TAX_JURISDICTION =
+  process.env.DEFAULT_TAX_JURISDICTION || 'CA-ON';
+
+if (!TAX_RULES[DEFAULT_TAX_JURISDICTION]) {
+  throw new Error(`No tax rules for DEFAULT_TAX_JURISDICTION ${DEFAULT_TAX_JURISDICTION}`);
+}
@@ -1,15 +1,39 @@
 import { serve } from '@hono/node-server';
 import { Hono } from 'hono';
 import { SalesforceCartClient } from './clients/salesforceCartClient.js';
+import { FileCartStore } from './clients/fileCartStore.js';
+import type { CartStore } from './clients/cartStore.js';
+import { IdempotencyStore } from './clients/idempotencyStore.js';
+import { CouponRedemptionStore } from './clients/couponRedemptionStore.js';
+import { InMemoryOrderStore } from './clients/orderStore.js';
 import { CartService } from './services/cart.service.js';
 import { createCartRoutes } from './routes/cart.routes.js';
-import { TAX_RATE } from './config/pricing.js';
+import { CatalogService } from './services/catalog.service.js';
+import { createCatalogRoutes } from './routes/catalog.routes.js';
+import { OrderService } from './services/order.service.js';
+import { createOrderRoutes } from './routes/order.routes.js';
+import { createAdminRoutes } from './routes/admin.routes.js';
+import { createSharedRoutes } from './routes/shared.routes.js';
+import { SharedCartStore } from './clients/sharedCartStore.js';
+import { ConsumedTokenStore } from './clients/consumedTokenStore.js';
+import { TokenRevocationStore } from './clients/tokenRevocationStore.js';
+import { catalog } from './config/catalog.js';
+import { DEFAULT_TAX_JURISDICTION } from './config/tax.js';
+import { DEFAULT_CURRENCY } from './config/pricing.js';
+import { loadRehydrationKeys, loadTokenFormat } from './config/rehydration.js';
+import { loadAuthKeys } from './config/auth.js';
+import { authenticate } from './routes/auth.middleware.js';
 
 // Environment configuration with defaults
 const PORT = parseInt(process.env.PORT || '3000', 10);
 const CART_TTL_MS = parseInt(process.env.CART_TTL_MS || '900000', 10); // 15 min
-const REHYDRATION_SECRET =
-  process.env.REHYDRATION_SECRET || 'dev-secret-min-32-chars-long-key';
+const CART_EXPIRED_GRACE_MS = parseInt(
+  process.env.CART_EXPIRED_GRACE_MS || '3600000',
+  10
+); // 1 hour
+const AUTH_KEYS = loadAuthKeys();
+const REHYDRATION_KEYS = loadRehydrationKeys();
+const REHYDRATION_TOKEN_FORMAT = loadTokenFormat();
 const REHYDRATION_MAX_AGE_MS = parseInt(
   process.env.REHYDRATION_MAX_AGE_MS || '3600000',
   10
@@ -20,20 +44,51 @@ const SWEEP_INTERVAL_MS = parseInt(
 ); // 60s
 const SWEEP_SCAN_LIMIT = parseInt(process.env.SWEEP_SCAN_LIMIT || '100', 10);
 const SWEEP_BUDGET_MS = parseInt(process.env.SWEEP_BUDGET_MS || '50', 10);
+const SHARE_TTL_MS = parseInt(process.env.SHARE_TTL_MS || '604800000', 10); // 7 days
+const IDEMPOTENCY_TTL_MS = parseInt(
+  process.env.IDEMPOTENCY_TTL_MS || '86400000',
+  10
+); // 24 hours
+const CART_STORE = process.env.CART_STORE || 'memory'; // memory | file
+const CART_STORE_PATH = process.env.CART_STORE_PATH || '.data/carts.json';
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY; // admin routes are off without it
 
 // Initialize components
-const client = new SalesforceCartClient(
-  CART_TTL_MS,
-  SWEEP_INTERVAL_MS,
-  SWEEP_SCAN_LIMIT,
-  SWEEP_BUDGET_MS
-);
+let client: CartStore;
+if (CART_STORE === 'file') {
+  client = new FileCartStore(
+    CART_STORE_PATH,
+    CART_TTL_MS,
+    SWEEP_INTERVAL_MS,
+    SWEEP_SCAN_LIMIT,
+    SWEEP_BUDGET_MS,
+    CART_EXPIRED_GRACE_MS
+  );
+} else if (CART_STORE === 'memory') {
+  client = new SalesforceCartClient(
+    CART_TTL_MS,
+    SWEEP_INTERVAL_MS,
+    SWEEP_SCAN_LIMIT,
+    SWEEP_BUDGET_MS,
+    CART_EXPIRED_GRACE_MS
+  );
+} else {
+  throw new Error(`Unknown CART_STORE "${CART_STORE}" (expected memory or file)`);
+}
+
+const orderStore = new InMemoryOrderStore();
 
 const service = new CartService(
   client,
   CART_TTL_MS,
-  REHYDRATION_SECRET,
-  REHYDRATION_MAX_AGE_MS
+  REHYDRATION_KEYS,
+  REHYDRATION_MAX_AGE_MS,
+  new CouponRedemptionStore(),
+  orderStore,
+  REHYDRATION_TOKEN_FORMAT,
+  new ConsumedTokenStore(REHYDRATION_MAX_AGE_MS),
+  new TokenRevocationStore(REHYDRATION_MAX_AGE_MS),
+  new SharedCartStore(SHARE_TTL_MS)
 );
 
 // Start bounded sweeper
@@ -47,8 +102,22 @@ app.get('/health', (c) => {
   return c.json({ status: 'ok' });
 });
 
-// Mount cart routes
-app.route('/cart', createCartRoutes(service));
+// Identify customers on every route that touches carts or orders
+for (const path of ['/cart/*', '/shared/*', '/orders/*']) {
+  app.use(path, authenticate(AUTH_KEYS));
+}
+
+// Mount cart, catalog, order and shared-cart routes
+app.route(
+  '/cart',
+  createCartRoutes(service, new IdempotencyStore(IDEMPOTENCY_TTL_MS))
+);
+app.route('/catalog', createCatalogRoutes(new CatalogService(catalog)));
+app.route('/orders', createOrderRoutes(new OrderService(orderStore)));
+app.route('/shared', createSharedRoutes(service));
+if (ADMIN_API_KEY) {
+  app.route('/admin', createAdminRoutes(service, ADMIN_API_KEY));
+}
 
 // 404 handler
 app.notFound((c) => {
@@ -71,7 +140,13 @@ serve({
 });
 
 console.log(`✓ Server running at http://localhost:${PORT}`);
-console.log(`  Cart TTL: ${CART_TTL_MS}ms`);
+console.log(`  Cart TTL: ${CART_TTL_MS}ms (expired carts kept ${CART_EXPIRED_GRACE_MS}ms)`);
+console.log(`  Cart store: ${CART_STORE}`);
+console.log(`  Admin routes: ${ADMIN_API_KEY ? 'enabled' : 'disabled (set ADMIN_API_KEY)'}`);
 console.log(`  Sweeper interval: ${SWEEP_INTERVAL_MS}ms`);
-console.log(`  Tax rate: ${(TAX_RATE * 100).toFixed(0)}%`);
+console.log(`  Default tax jurisdiction: ${DEFAULT_TAX_JURISDICTION}`);
+console.log(`  Default currency: ${DEFAULT_CURRENCY}`);
+console.log(
+  `  Rehydration tokens: ${REHYDRATION_TOKEN_FORMAT} with key ${REHYDRATION_KEYS.activeKid}`
+);
 
@@ -0,0 +1,83 @@
+import { UnauthorizedError } from './errors.js';
+import { KeyRing } from './keyRing.js';
+import { decodePart, encodePart, sign, signatureMatches } from './jwt.js';
+
+/**
+ * Claims of a customer access token (an HS256 JWT)
+ */
+export interface AccessTokenClaims {
+  /** Customer id */
+  sub: string;
+  /** Expiry, in seconds since the epoch */
+  exp: number;
+  iat?: number;
+}
+
+interface AccessTokenHeader {
+  alg: 'HS256';
+  typ: 'JWT';
+  kid?: string;
+}
+
+/**
+ * Issue an access token for a customer, signed with the active key
+ * Production tokens come from the identity provider; this is for local
+ * development and tests
+ */
+export function createAccessToken(customerId: string, keys: KeyRing, ttlMs: number): string {
+  const now = Date.now();
+  const header: AccessTokenHeader = { alg: 'HS256', typ: 'JWT', kid: keys.activeKid };
+  const claims: AccessTokenClaims = {
+    sub: customerId,
+    iat: Math.floor(now / 1000),
+    exp: Math.floor((now + ttlMs) / 1000),
+  };
+  const signed = `${encodePart(header)}.${encodePart(claims)}`;
+  return `${signed}.${sign(signed, keys.activeSecret())}`;
+}
+
+/**
+ * Verify an access token and return the customer id it was issued for
+ * Tokens without a `kid` are checked against every key in the ring
+ * Throws UnauthorizedError if the token is malformed, forged or expired
+ */
+export function verifyAccessToken(token: string, keys: KeyRing): string {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new UnauthorizedError('Access token malformed');
+  }
+
+  const [encodedHeader, encodedClaims, signature] = parts;
+  const header = decode<Partial<AccessTokenHeader>>(encodedHeader);
+  if (header.alg !== 'HS256') {
+    throw new UnauthorizedError('Access token algorithm not supported');
+  }
+
+  const secrets = header.kid === undefined ? keys.secrets() : [keys.get(header.kid) ?? ''];
+  const signed = `${encodedHeader}.${encodedClaims}`;
+  if (!secrets.some((secret) => secret && signatureMatches(signed, signature, secret))) {
+    throw new UnauthorizedError('Access token signature invalid');
+  }
+
+  const claims = decode<Partial<AccessTokenClaims>>(encodedClaims);
+  if (typeof claims.sub !== 'string' || claims.sub.length === 0) {
+    throw new UnauthorizedError('Access token has no subject');
+  }
+  if (typeof claims.exp !== 'number' || Date.now() >= claims.exp * 1000) {
+    throw new UnauthorizedError('Access token expired');
+  }
+
+  return claims.sub;
+}
+
+/**
+ * Decode a base64url JSON part, throwing an UnauthorizedError if it isn't an
+ * object
+ */
+function decode<T>(part: string): T {
+  const value = decodePart<T>(part);
+  if (!value) {
+    throw new UnauthorizedError('Access token malformed');
+  }
+  return value;
+}
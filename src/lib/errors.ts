@@ -2,11 +2,28 @@
  * Custom error classes for the cart API
  */
 
+import type { CartStatus } from '../models/types.js';
+
+/**
+ * One invalid field in a request
+ */
+export interface ErrorDetail {
+  /**
+   * JSON pointer into the request, e.g. `/serviceAddress/postalCode`; empty
+   * for the whole request
+   */
+  path: string;
+  /** Rule the field broke, e.g. `format` or `range` */
+  rule: string;
+  message: string;
+}
+
 export class CartError extends Error {
   constructor(
     message: string,
     public readonly code: string,
-    public readonly statusCode: number
+    public readonly statusCode: number,
+    public readonly details?: ErrorDetail[]
   ) {
     super(message);
     this.name = 'CartError';
@@ -21,12 +38,95 @@ export class NotFoundError extends CartError {
 }
 
 export class ValidationError extends CartError {
-  constructor(message = 'Validation failed') {
-    super(message, 'VALIDATION_ERROR', 400);
+  constructor(message = 'Validation failed', details?: ErrorDetail[]) {
+    super(message, 'VALIDATION_ERROR', 400, details);
     this.name = 'ValidationError';
   }
 }
 
+export class UnknownSkuError extends CartError {
+  constructor(message = 'Unknown SKU') {
+    super(message, 'UNKNOWN_SKU', 400);
+    this.name = 'UnknownSkuError';
+  }
+}
+
+export class PriceUnavailableError extends CartError {
+  constructor(message = 'Price not available in this currency') {
+    super(message, 'PRICE_UNAVAILABLE', 400);
+    this.name = 'PriceUnavailableError';
+  }
+}
+
+export class InvalidCouponError extends CartError {
+  constructor(message = 'Coupon is invalid') {
+    super(message, 'INVALID_COUPON', 400);
+    this.name = 'InvalidCouponError';
+  }
+}
+
+export class ConflictError extends CartError {
+  constructor(message = 'Resource was modified concurrently') {
+    super(message, 'CONFLICT', 409);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Error code for each status that blocks cart mutations
+ */
+const CART_STATE_CODES: Record<Exclude<CartStatus, 'ACTIVE'>, string> = {
+  LOCKED_FOR_CHECKOUT: 'CART_LOCKED',
+  CHECKED_OUT: 'CART_CHECKED_OUT',
+  ABANDONED: 'CART_ABANDONED',
+  EXPIRED: 'CART_EXPIRED',
+};
+
+export class CartStateError extends CartError {
+  constructor(
+    public readonly status: Exclude<CartStatus, 'ACTIVE'>,
+    message = `Cart is ${status} and can't be changed`
+  ) {
+    super(message, CART_STATE_CODES[status], 409);
+    this.name = 'CartStateError';
+  }
+}
+
+export class InvalidTransitionError extends CartError {
+  constructor(message = 'Cart status transition is not allowed') {
+    super(message, 'INVALID_STATUS_TRANSITION', 409);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export class CompatibilityError extends CartError {
+  constructor(message = 'Cart items are not compatible') {
+    super(message, 'INCOMPATIBLE_ITEMS', 422);
+    this.name = 'CompatibilityError';
+  }
+}
+
+export class CheckoutError extends CartError {
+  constructor(message = 'Cart cannot be checked out') {
+    super(message, 'CHECKOUT_INVALID', 422);
+    this.name = 'CheckoutError';
+  }
+}
+
+export class PreconditionFailedError extends CartError {
+  constructor(message = 'Precondition failed') {
+    super(message, 'PRECONDITION_FAILED', 412);
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+export class IdempotencyKeyReusedError extends CartError {
+  constructor(message = 'Idempotency-Key was already used with a different request') {
+    super(message, 'IDEMPOTENCY_KEY_REUSED', 422);
+    this.name = 'IdempotencyKeyReusedError';
+  }
+}
+
 export class TokenError extends CartError {
   constructor(message = 'Token invalid or expired') {
     super(message, 'TOKEN_ERROR', 401);
@@ -34,6 +134,20 @@ export class TokenError extends CartError {
   }
 }
 
+export class UnauthorizedError extends CartError {
+  constructor(message = 'Authentication required') {
+    super(message, 'UNAUTHORIZED', 401);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends CartError {
+  constructor(message = 'Not allowed') {
+    super(message, 'FORBIDDEN', 403);
+    this.name = 'ForbiddenError';
+  }
+}
+
 /**
  * Error envelope for API responses
  */
@@ -41,6 +155,8 @@ export interface ErrorResponse {
   error: {
     code: string;
     message: string;
+    /** Every invalid field, when the error is about the request's fields */
+    details?: ErrorDetail[];
   };
 }
 
@@ -50,6 +166,7 @@ export function toErrorResponse(error: unknown): ErrorResponse {
       error: {
         code: error.code,
         message: error.message,
+        ...(error.details && { details: error.details }),
       },
     };
   }
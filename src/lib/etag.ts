@@ -0,0 +1,26 @@
+import { PreconditionFailedError } from './errors.js';
+
+/**
+ * Format a cart version as a strong ETag
+ */
+export function formatEtag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Parse an If-Match header into the expected cart version
+ * Returns undefined when the header is absent or `*` (match any version)
+ * Throws PreconditionFailedError for values that can never match a cart ETag
+ */
+export function parseIfMatch(header: string | undefined): number | undefined {
+  if (header === undefined || header.trim() === '*') {
+    return undefined;
+  }
+
+  // Weak validators are accepted: the version is the same either way
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header.trim());
+  if (!match) {
+    throw new PreconditionFailedError('If-Match does not match a cart ETag');
+  }
+  return parseInt(match[1], 10);
+}
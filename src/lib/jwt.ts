@@ -0,0 +1,41 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Base64url-encode a JSON value as a JWT header or payload part
+ */
+export function encodePart(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Decode a base64url JSON part
+ * Returns null if it isn't valid JSON or isn't an object
+ */
+export function decodePart<T>(part: string): T | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(part, 'base64url').toString('utf-8'));
+  } catch {
+    return null;
+  }
+  return value && typeof value === 'object' ? (value as T) : null;
+}
+
+/**
+ * HMAC-SHA256 signature, base64url-encoded
+ */
+export function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+/**
+ * Compare signatures in constant time (handles different lengths)
+ */
+export function signatureMatches(data: string, signature: string, secret: string): boolean {
+  const sigBuffer = Buffer.from(signature);
+  const expectedBuffer = Buffer.from(sign(data, secret));
+  return (
+    sigBuffer.length === expectedBuffer.length &&
+    timingSafeEqual(sigBuffer, expectedBuffer)
+  );
+}
@@ -0,0 +1,58 @@
+const KID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MIN_SECRET_LENGTH = 32;
+
+/**
+ * Signing secrets by key id (`kid`)
+ *
+ * New tokens are signed with the active key; every key in the ring is
+ * accepted when verifying. To rotate, add the new key, make it active once
+ * every instance has it, and drop the old key after the longest token
+ * lifetime has passed.
+ */
+export class KeyRing {
+  private readonly keys = new Map<string, string>();
+
+  constructor(
+    keys: Record<string, string>,
+    public readonly activeKid: string
+  ) {
+    for (const [kid, secret] of Object.entries(keys)) {
+      if (!KID_PATTERN.test(kid)) {
+        throw new Error(`Key id "${kid}" must be 1-64 letters, digits, - or _`);
+      }
+      if (secret.length < MIN_SECRET_LENGTH) {
+        throw new Error(`Key ${kid} must be at least ${MIN_SECRET_LENGTH} characters`);
+      }
+      this.keys.set(kid, secret);
+    }
+    if (!this.keys.has(activeKid)) {
+      throw new Error(`Active key ${activeKid} is not in the key ring`);
+    }
+  }
+
+  /**
+   * Secret for a key id, if it's in the ring
+   */
+  get(kid: string): string | undefined {
+    return this.keys.get(kid);
+  }
+
+  /**
+   * Secret new tokens are signed with
+   */
+  activeSecret(): string {
+    return this.keys.get(this.activeKid)!;
+  }
+
+  /**
+   * Every secret in the ring, active key first
+   */
+  secrets(): string[] {
+    return [
+      this.activeSecret(),
+      ...[...this.keys]
+        .filter(([kid]) => kid !== this.activeKid)
+        .map(([, secret]) => secret),
+    ];
+  }
+}
@@ -1,65 +1,115 @@
-import { createHmac, timingSafeEqual } from 'crypto';
-import { RehydrationTokenPayload } from '../models/types.js';
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'crypto';
+import {
+  RehydrationState,
+  RehydrationTokenPayload,
+  TokenClaims,
+} from '../models/types.js';
 import { TokenError } from './errors.js';
+import { KeyRing } from './keyRing.js';
+import { decodePart, encodePart, sign, signatureMatches } from './jwt.js';
 
 /**
- * Generate a rehydration token from a payload
+ * How tokens are issued: HMAC-signed (payload readable by the holder) or
+ * encrypted with AES-256-GCM (payload opaque)
  */
-export function generateToken(
-  payload: RehydrationTokenPayload,
-  secret: string
-): string {
-  const dataStr = JSON.stringify(payload);
-  const encoded = Buffer.from(dataStr).toString('base64url');
-  const signature = createHmac('sha256', secret).update(encoded).digest('base64url');
-  return `${encoded}.${signature}`;
+export type TokenFormat = 'signed' | 'encrypted';
+
+/**
+ * Prefix marking an encrypted token; signed tokens have none
+ */
+const ENCRYPTED_PREFIX = 'v2';
+const IV_BYTES = 12;
+
+/**
+ * Version of the cart state schema in new tokens
+ * 1 (no `v`): items only. 2: currency, customer, lines, items and coupons.
+ */
+export const TOKEN_SCHEMA_VERSION = 2;
+
+/**
+ * Token header: algorithm and the id of the key that signed or encrypted it
+ * Share tokens are marked with `typ` so neither kind passes for the other.
+ */
+interface TokenHeader {
+  alg: 'HS256' | 'A256GCM';
+  kid: string;
+  typ?: 'share';
 }
 
 /**
- * Verify and decode a rehydration token
+ * Payload of a share token: the shared snapshot's id and when the link expires
  */
-export function verifyToken(
-  token: string,
-  secret: string,
-  maxAgeMs: number
-): RehydrationTokenPayload {
-  const parts = token.split('.');
-  if (parts.length !== 2) {
-    throw new TokenError('Invalid token format');
-  }
+interface ShareTokenPayload {
+  sid: string;
+  exp: number;
+}
 
-  const [encoded, signature] = parts;
+/**
+ * Generate a rehydration token from a payload, signed with the active key
+ * Format: `header.payload.signature`, each part base64url-encoded
+ */
+export function generateToken(payload: RehydrationTokenPayload, keys: KeyRing): string {
+  return signToken({ alg: 'HS256', kid: keys.activeKid }, payload, keys);
+}
 
-  // Verify signature
-  const expectedSignature = createHmac('sha256', secret)
-    .update(encoded)
-    .digest('base64url');
+/**
+ * Generate an encrypted rehydration token with the active key
+ * Format: `v2.header.iv.ciphertext.tag`; the header is authenticated too
+ */
+export function encryptToken(payload: RehydrationTokenPayload, keys: KeyRing): string {
+  const header: TokenHeader = { alg: 'A256GCM', kid: keys.activeKid };
+  const encodedHeader = encodePart(header);
+  const iv = randomBytes(IV_BYTES);
 
-  // Compare signatures safely (handle different lengths)
-  const sigBuffer = Buffer.from(signature);
-  const expectedBuffer = Buffer.from(expectedSignature);
-  
-  if (sigBuffer.length !== expectedBuffer.length || 
-      !timingSafeEqual(sigBuffer, expectedBuffer)) {
-    throw new TokenError('Token signature invalid');
-  }
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(keys.activeSecret()), iv);
+  cipher.setAAD(Buffer.from(encodedHeader));
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(payload), 'utf-8'),
+    cipher.final(),
+  ]);
 
-  // Decode payload
-  let payload: RehydrationTokenPayload;
-  try {
-    const dataStr = Buffer.from(encoded, 'base64url').toString('utf-8');
-    payload = JSON.parse(dataStr);
-  } catch {
-    throw new TokenError('Token payload invalid');
-  }
+  return [
+    ENCRYPTED_PREFIX,
+    encodedHeader,
+    iv.toString('base64url'),
+    ciphertext.toString('base64url'),
+    cipher.getAuthTag().toString('base64url'),
+  ].join('.');
+}
+
+/**
+ * Verify and decode a rehydration token in either format
+ * Tokens name their key in the header. Signed tokens from before key ids
+ * (`payload.signature`) are checked against every key in the ring.
+ */
+export function verifyToken(
+  token: string,
+  keys: KeyRing,
+  maxAgeMs: number
+): RehydrationTokenPayload {
+  const payload = token.startsWith(`${ENCRYPTED_PREFIX}.`)
+    ? decryptPayload(token, keys)
+    : decode<RehydrationTokenPayload>(
+        verifySignature(token, keys),
+        'Token payload invalid'
+      );
 
-  // Validate payload structure
+  // Validate payload structure; the service re-validates each piece
   if (
+    !payload ||
     typeof payload.iat !== 'number' ||
-    !Array.isArray(payload.items)
+    !Array.isArray(payload.items) ||
+    (payload.lines !== undefined && !Array.isArray(payload.lines)) ||
+    (payload.coupons !== undefined && !Array.isArray(payload.coupons)) ||
+    (payload.jti !== undefined && typeof payload.jti !== 'string') ||
+    (payload.cartId !== undefined && typeof payload.cartId !== 'string') ||
+    (payload.gen !== undefined && typeof payload.gen !== 'number')
   ) {
     throw new TokenError('Token payload malformed');
   }
+  if (payload.v !== undefined && payload.v > TOKEN_SCHEMA_VERSION) {
+    throw new TokenError(`Token schema version ${payload.v} is not supported`);
+  }
 
   // Check age
   const now = Date.now();
@@ -72,16 +122,152 @@ export function verifyToken(
 }
 
 /**
- * Create a rehydration token from cart items
+ * Create a rehydration token from cart state
  */
 export function createRehydrationToken(
-  items: Array<{ sku: string; quantity: number }>,
-  secret: string
+  state: RehydrationState,
+  keys: KeyRing,
+  format: TokenFormat = 'signed',
+  claims: TokenClaims = {}
 ): string {
   const payload: RehydrationTokenPayload = {
+    v: TOKEN_SCHEMA_VERSION,
     iat: Date.now(),
-    items,
+    ...claims,
+    ...state,
   };
-  return generateToken(payload, secret);
+  return format === 'encrypted' ? encryptToken(payload, keys) : generateToken(payload, keys);
 }
 
+/**
+ * Create a share token for a cart snapshot, signed with the active key
+ * Share tokens use the signed format with `typ: "share"` in the header
+ */
+export function createShareToken(shareId: string, expiresAt: number, keys: KeyRing): string {
+  const payload: ShareTokenPayload = { sid: shareId, exp: expiresAt };
+  return signToken({ alg: 'HS256', kid: keys.activeKid, typ: 'share' }, payload, keys);
+}
+
+/**
+ * Verify a share token and return the id of the snapshot it shares
+ */
+export function verifyShareToken(token: string, keys: KeyRing): string {
+  const payload = decode<Partial<ShareTokenPayload>>(
+    verifySignature(token, keys, 'share'),
+    'Token payload invalid'
+  );
+  if (!payload || typeof payload.sid !== 'string' || typeof payload.exp !== 'number') {
+    throw new TokenError('Token payload malformed');
+  }
+  if (Date.now() > payload.exp) {
+    throw new TokenError('Share link expired');
+  }
+  return payload.sid;
+}
+
+/**
+ * Sign a header and payload as `header.payload.signature`
+ */
+function signToken(header: TokenHeader, payload: unknown, keys: KeyRing): string {
+  const signed = `${encodePart(header)}.${encodePart(payload)}`;
+  return `${signed}.${sign(signed, keys.activeSecret())}`;
+}
+
+/**
+ * Check a signed token's signature and type, and return its encoded payload
+ */
+function verifySignature(token: string, keys: KeyRing, typ?: TokenHeader['typ']): string {
+  const parts = token.split('.');
+
+  if (parts.length === 3) {
+    const [encodedHeader, encodedPayload, signature] = parts;
+    const header = decode<Partial<TokenHeader>>(encodedHeader, 'Token header invalid');
+    if (header.alg !== 'HS256' || typeof header.kid !== 'string' || header.typ !== typ) {
+      throw new TokenError('Token header invalid');
+    }
+    const secret = keys.get(header.kid);
+    if (!secret) {
+      throw new TokenError('Token signing key unknown');
+    }
+    if (!signatureMatches(`${encodedHeader}.${encodedPayload}`, signature, secret)) {
+      throw new TokenError('Token signature invalid');
+    }
+    return encodedPayload;
+  }
+
+  // Tokens from before key ids are always rehydration tokens
+  if (parts.length === 2 && typ === undefined) {
+    const [encodedPayload, signature] = parts;
+    const valid = keys
+      .secrets()
+      .some((secret) => signatureMatches(encodedPayload, signature, secret));
+    if (!valid) {
+      throw new TokenError('Token signature invalid');
+    }
+    return encodedPayload;
+  }
+
+  throw new TokenError('Invalid token format');
+}
+
+/**
+ * Decrypt an encrypted token's payload, failing if it was tampered with
+ */
+function decryptPayload(token: string, keys: KeyRing): RehydrationTokenPayload {
+  const parts = token.split('.');
+  if (parts.length !== 5) {
+    throw new TokenError('Invalid token format');
+  }
+
+  const [, encodedHeader, iv, ciphertext, tag] = parts;
+  const header = decode<Partial<TokenHeader>>(encodedHeader, 'Token header invalid');
+  if (header.alg !== 'A256GCM' || typeof header.kid !== 'string' || header.typ) {
+    throw new TokenError('Token header invalid');
+  }
+  const secret = keys.get(header.kid);
+  if (!secret) {
+    throw new TokenError('Token signing key unknown');
+  }
+
+  let plaintext: string;
+  try {
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      encryptionKey(secret),
+      Buffer.from(iv, 'base64url')
+    );
+    decipher.setAAD(Buffer.from(encodedHeader));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    plaintext = Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64url')),
+      decipher.final(),
+    ]).toString('utf-8');
+  } catch {
+    throw new TokenError('Token could not be decrypted');
+  }
+
+  try {
+    return JSON.parse(plaintext) as RehydrationTokenPayload;
+  } catch {
+    throw new TokenError('Token payload invalid');
+  }
+}
+
+/**
+ * Derive the AES-256 key for a ring secret, so the same secret is never used
+ * directly for both signing and encryption
+ */
+function encryptionKey(secret: string): Buffer {
+  return Buffer.from(hkdfSync('sha256', secret, '', 'rehydration-token-encryption', 32));
+}
+
+/**
+ * Decode a base64url JSON part, throwing a TokenError if it isn't an object
+ */
+function decode<T>(part: string, message: string): T {
+  const value = decodePart<T>(part);
+  if (!value) {
+    throw new TokenError(message);
+  }
+  return value;
+}
@@ -1,21 +1,74 @@
-import { ValidationError } from './errors.js';
+import { ValidationError, ErrorDetail } from './errors.js';
+import {
+  Address,
+  CartItem,
+  CartLine,
+  CartStatus,
+  CustomerInfo,
+  MergeStrategy,
+  ProductType,
+} from '../models/types.js';
+import { isSupportedJurisdiction, resolveJurisdiction } from '../models/tax.js';
+import { catalog, PRODUCT_TYPES } from '../config/catalog.js';
+import { DEFAULT_CURRENCY } from '../config/pricing.js';
+import { FINANCING_TERMS_MONTHS } from '../config/financing.js';
+import { POSTAL_CODE_FORMATS } from '../config/customer.js';
+
+/** Statuses a client can request; CHECKED_OUT and EXPIRED are set by the server */
+const REQUESTABLE_STATUSES: readonly CartStatus[] = [
+  'ACTIVE',
+  'LOCKED_FOR_CHECKOUT',
+  'ABANDONED',
+];
+const MERGE_STRATEGIES: readonly MergeStrategy[] = ['sum', 'keepTarget', 'keepSource', 'max'];
+const MAX_LABEL_LENGTH = 50;
+const MAX_NAME_LENGTH = 100;
+const MAX_ADDRESS_FIELD_LENGTH = 100;
+const MAX_EMAIL_LENGTH = 254;
+const MAX_EMAIL_LOCAL_LENGTH = 64;
+/** Postal code format for countries without one in POSTAL_CODE_FORMATS */
+const GENERIC_POSTAL_CODE = /^[A-Z0-9][A-Z0-9 -]{0,9}$/;
+const EARLIEST_DATE_OF_BIRTH = '1900-01-01';
+const EMAIL_LOCAL_PART = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/;
+const EMAIL_DOMAIN = /^(?:[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?\.)+[A-Za-z]{2,63}$/;
+const MSISDN_MESSAGE = 'msisdn must be 8-15 digits, optionally prefixed with +';
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
 
 /**
- * Simple email validation
+ * Validate an email address
  */
 export function validateEmail(email: string): void {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  if (!emailRegex.test(email)) {
-    throw new ValidationError('Invalid email format');
+  if (!isValidEmail(email)) {
+    throw invalid('email', 'format', 'Invalid email format');
   }
 }
 
 /**
- * Validate SKU exists (demo: just check it's non-empty)
+ * Check an email address: a dot-atom local part of at most 64 characters and
+ * a domain of valid DNS labels with an alphabetic TLD, 254 characters at most
+ * Quoted local parts and IP-literal domains aren't accepted
+ */
+function isValidEmail(email: string): boolean {
+  if (email.length > MAX_EMAIL_LENGTH) {
+    return false;
+  }
+  const at = email.lastIndexOf('@');
+  const local = email.slice(0, at);
+  return (
+    at > 0 &&
+    local.length <= MAX_EMAIL_LOCAL_LENGTH &&
+    EMAIL_LOCAL_PART.test(local) &&
+    EMAIL_DOMAIN.test(email.slice(at + 1))
+  );
+}
+
+/**
+ * Validate SKU is well-formed (catalog membership is checked by CartService)
  */
 export function validateSku(sku: string): void {
   if (!sku || sku.trim().length === 0) {
-    throw new ValidationError('SKU must be non-empty');
+    throw invalid('sku', 'required', 'SKU must be non-empty');
   }
 }
 
@@ -23,8 +76,8 @@ export function validateSku(sku: string): void {
  * Validate quantity is >= 1
  */
 export function validateQuantity(quantity: number): void {
-  if (!Number.isInteger(quantity) || quantity < 1) {
-    throw new ValidationError('Quantity must be an integer >= 1');
+  if (!isPositiveInteger(quantity)) {
+    throw invalid('quantity', 'range', 'Quantity must be an integer >= 1');
   }
 }
 
@@ -34,81 +87,643 @@ export function validateQuantity(quantity: number): void {
 export function validateAddItemRequest(body: unknown): {
   sku: string;
   quantity: number;
+  lineId?: string;
+  payment?: CartItem['payment'];
 } {
-  if (!body || typeof body !== 'object') {
-    throw new ValidationError('Request body must be an object');
-  }
-
-  const { sku, quantity } = body as Record<string, unknown>;
+  const { sku, quantity, lineId, payment } = requireObject(body);
+  const details: ErrorDetail[] = [];
 
   if (typeof sku !== 'string') {
-    throw new ValidationError('sku must be a string');
+    details.push(detail('sku', 'type', 'sku must be a string'));
+  } else if (sku.trim().length === 0) {
+    details.push(detail('sku', 'required', 'SKU must be non-empty'));
   }
 
   if (typeof quantity !== 'number') {
-    throw new ValidationError('quantity must be a number');
+    details.push(detail('quantity', 'type', 'quantity must be a number'));
+  } else if (!isPositiveInteger(quantity)) {
+    details.push(detail('quantity', 'range', 'Quantity must be an integer >= 1'));
+  }
+
+  if (lineId !== undefined && (typeof lineId !== 'string' || lineId.length === 0)) {
+    details.push(detail('lineId', 'type', 'lineId must be a non-empty string'));
   }
 
-  validateSku(sku);
-  validateQuantity(quantity);
+  const financing = payment === undefined ? undefined : validatePaymentOption(payment, details);
 
-  return { sku, quantity };
+  throwIfInvalid(details);
+  return {
+    sku: sku as string,
+    quantity: quantity as number,
+    ...(lineId !== undefined && { lineId: lineId as string }),
+    ...(financing && { payment: financing }),
+  };
 }
 
 /**
- * Validate customer update request
+ * Validate a payment option: `{ type: 'full' }` or
+ * `{ type: 'installments', months, downPayment }`
+ * Returns the financing terms, or undefined for full price or if invalid
  */
-export function validateCustomerRequest(body: unknown): {
-  email?: string;
-  firstName?: string;
-  lastName?: string;
-} {
-  if (!body || typeof body !== 'object') {
-    throw new ValidationError('Request body must be an object');
+function validatePaymentOption(
+  payment: unknown,
+  details: ErrorDetail[]
+): CartItem['payment'] {
+  if (!payment || typeof payment !== 'object') {
+    details.push(detail('payment', 'type', 'payment must be an object'));
+    return undefined;
+  }
+
+  const { type, months, downPayment } = payment as Record<string, unknown>;
+
+  if (type === 'full') {
+    return undefined;
+  }
+  if (type !== 'installments') {
+    details.push(detail('payment.type', 'enum', 'payment.type must be full or installments'));
+    return undefined;
+  }
+
+  const found = details.length;
+  if (!FINANCING_TERMS_MONTHS.includes(months as number)) {
+    details.push(
+      detail(
+        'payment.months',
+        'enum',
+        `payment.months must be one of ${FINANCING_TERMS_MONTHS.join(', ')}`
+      )
+    );
+  }
+  if (!Number.isInteger(downPayment) || (downPayment as number) < 0) {
+    details.push(
+      detail('payment.downPayment', 'range', 'payment.downPayment must be a non-negative integer')
+    );
+  }
+  if (details.length > found) {
+    return undefined;
+  }
+
+  return { type, months: months as number, downPayment: downPayment as number };
+}
+
+/**
+ * Validate add line request
+ * A line needs an MSISDN unless its number is being ported in
+ */
+export function validateLineRequest(body: unknown): Omit<CartLine, 'lineId'> {
+  const data = requireObject(body);
+  const details: ErrorDetail[] = [];
+  const line = validateLineFields(data, details);
+
+  if (data.label === undefined) {
+    details.push(detail('label', 'required', 'label is required'));
+  }
+  if (data.msisdn === undefined && data.portIn !== true) {
+    details.push(detail('msisdn', 'required', 'msisdn is required unless portIn is true'));
+  }
+
+  throwIfInvalid(details);
+  return { ...line, label: line.label as string, portIn: line.portIn ?? false };
+}
+
+/**
+ * Validate that no other line in the cart has the number
+ * `lineId` is the line being changed, if any
+ */
+export function validateUniqueMsisdn(
+  lines: CartLine[],
+  msisdn: string | undefined,
+  lineId?: string
+): void {
+  if (msisdn !== undefined && lines.some((l) => l.msisdn === msisdn && l.lineId !== lineId)) {
+    throw invalid('msisdn', 'unique', `msisdn ${msisdn} is already on another line`);
+  }
+}
+
+/**
+ * Validate update line request (any subset of label, msisdn, portIn)
+ */
+export function validateUpdateLineRequest(
+  body: unknown
+): Partial<Omit<CartLine, 'lineId'>> {
+  const data = requireObject(body);
+  const details: ErrorDetail[] = [];
+  const changes = validateLineFields(data, details);
+
+  throwIfInvalid(details);
+  if (Object.keys(changes).length === 0) {
+    throw invalid('', 'required', 'At least one of label, msisdn, portIn is required');
+  }
+  return changes;
+}
+
+/**
+ * Validate the line fields present in a request body
+ */
+function validateLineFields(
+  data: Record<string, unknown>,
+  details: ErrorDetail[]
+): Partial<Omit<CartLine, 'lineId'>> {
+  const { label, msisdn, portIn } = data;
+  const result: Partial<Omit<CartLine, 'lineId'>> = {};
+
+  if (label !== undefined) {
+    if (
+      typeof label !== 'string' ||
+      label.trim().length === 0 ||
+      label.trim().length > MAX_LABEL_LENGTH
+    ) {
+      details.push(detail('label', 'length', `label must be 1-${MAX_LABEL_LENGTH} characters`));
+    } else {
+      result.label = label.trim();
+    }
   }
 
-  const data = body as Record<string, unknown>;
-  const result: { email?: string; firstName?: string; lastName?: string } = {};
+  if (msisdn !== undefined) {
+    if (typeof msisdn !== 'string') {
+      details.push(detail('msisdn', 'type', 'msisdn must be a string'));
+    } else if (!isValidMsisdn(msisdn)) {
+      details.push(detail('msisdn', 'format', MSISDN_MESSAGE));
+    } else {
+      result.msisdn = msisdn;
+    }
+  }
+
+  if (portIn !== undefined) {
+    if (typeof portIn !== 'boolean') {
+      details.push(detail('portIn', 'type', 'portIn must be a boolean'));
+    } else {
+      result.portIn = portIn;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validate item quantity update request
+ * Same rules as validateQuantity, except 0 is allowed to remove the item
+ */
+export function validateUpdateItemRequest(body: unknown): { quantity: number } {
+  const { quantity } = requireObject(body);
+
+  if (typeof quantity !== 'number') {
+    throw invalid('quantity', 'type', 'quantity must be a number');
+  }
+  if (quantity !== 0 && !isPositiveInteger(quantity)) {
+    throw invalid('quantity', 'range', 'Quantity must be an integer >= 1');
+  }
+
+  return { quantity };
+}
+
+/**
+ * Validate customer update request
+ */
+export function validateCustomerRequest(body: unknown): CustomerInfo {
+  const data = requireObject(body);
+  const details: ErrorDetail[] = [];
+  const result: CustomerInfo = {};
 
   if (data.email !== undefined) {
-    if (typeof data.email !== 'string') {
-      throw new ValidationError('email must be a string');
+    if (typeof data.email !== 'string' || !isValidEmail(data.email)) {
+      details.push(detail('email', 'format', 'email must be a valid email address'));
+    } else {
+      result.email = data.email;
     }
-    validateEmail(data.email);
-    result.email = data.email;
   }
 
-  if (data.firstName !== undefined) {
-    if (typeof data.firstName !== 'string') {
-      throw new ValidationError('firstName must be a string');
+  for (const field of ['firstName', 'lastName'] as const) {
+    const name = validateText(data[field], field, MAX_NAME_LENGTH, details);
+    if (name !== undefined) {
+      result[field] = name;
     }
-    result.firstName = data.firstName;
   }
 
-  if (data.lastName !== undefined) {
-    if (typeof data.lastName !== 'string') {
-      throw new ValidationError('lastName must be a string');
+  if (data.phone !== undefined) {
+    if (typeof data.phone !== 'string' || !/^\+[1-9]\d{1,14}$/.test(data.phone)) {
+      details.push(detail('phone', 'format', 'phone must be in E.164 format, e.g. +14165550100'));
+    } else {
+      result.phone = data.phone;
     }
-    result.lastName = data.lastName;
   }
 
+  if (data.dateOfBirth !== undefined) {
+    const dateOfBirth = validateDateOfBirth(data.dateOfBirth, details);
+    if (dateOfBirth !== undefined) {
+      result.dateOfBirth = dateOfBirth;
+    }
+  }
+
+  if (data.serviceAddress !== undefined) {
+    const address = validateAddress(data.serviceAddress, 'serviceAddress', details, true);
+    if (address) {
+      result.serviceAddress = address;
+    }
+  }
+
+  if (data.billingAddress !== undefined) {
+    const address = validateAddress(data.billingAddress, 'billingAddress', details, false);
+    if (address) {
+      result.billingAddress = address;
+    }
+  }
+
+  throwIfInvalid(details);
   return result;
 }
 
 /**
- * Validate rehydration request
+ * Validate a date of birth: a real `YYYY-MM-DD` date between 1900 and today
+ * The minimum age for contracts is checked at checkout
  */
-export function validateRehydrationRequest(body: unknown): { token: string } {
-  if (!body || typeof body !== 'object') {
-    throw new ValidationError('Request body must be an object');
+function validateDateOfBirth(value: unknown, details: ErrorDetail[]): string | undefined {
+  const date = typeof value === 'string' ? new Date(`${value}T00:00:00Z`) : undefined;
+  // Date rolls impossible days over (2001-02-30 becomes 2001-03-02)
+  if (
+    typeof value !== 'string' ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+    !date ||
+    Number.isNaN(date.getTime()) ||
+    date.toISOString().slice(0, 10) !== value
+  ) {
+    details.push(detail('dateOfBirth', 'format', 'dateOfBirth must be a date in YYYY-MM-DD form'));
+    return undefined;
+  }
+
+  if (value < EARLIEST_DATE_OF_BIRTH || date.getTime() > Date.now()) {
+    details.push(
+      detail(
+        'dateOfBirth',
+        'range',
+        `dateOfBirth must be between ${EARLIEST_DATE_OF_BIRTH} and today`
+      )
+    );
+    return undefined;
+  }
+
+  return value;
+}
+
+/**
+ * Validate an address, reporting each invalid field under `field`
+ * Postal codes are checked against the country's format. A taxable address
+ * (the service address) must also fall in a supported tax jurisdiction.
+ */
+function validateAddress(
+  value: unknown,
+  field: string,
+  details: ErrorDetail[],
+  taxable: boolean
+): Address | undefined {
+  if (!value || typeof value !== 'object') {
+    details.push(detail(field, 'type', `${field} must be an object`));
+    return undefined;
+  }
+
+  const data = value as Record<string, unknown>;
+  const found = details.length;
+
+  const country =
+    typeof data.country === 'string' && /^[A-Z]{2}$/.test(data.country) ? data.country : undefined;
+  if (!country) {
+    details.push(
+      detail(`${field}.country`, 'format', `${field}.country must be an ISO 3166-1 alpha-2 code`)
+    );
+  }
+  if (typeof data.province !== 'string' || !/^[A-Z]{2,3}$/.test(data.province)) {
+    details.push(
+      detail(`${field}.province`, 'format', `${field}.province must be a province or state code`)
+    );
+  }
+
+  const address = { country: data.country, province: data.province } as Address;
+  for (const key of ['line1', 'line2', 'city'] as const) {
+    const text = validateText(data[key], `${field}.${key}`, MAX_ADDRESS_FIELD_LENGTH, details);
+    if (text !== undefined) {
+      address[key] = text;
+    }
+  }
+
+  if (data.postalCode !== undefined) {
+    const postalCode =
+      typeof data.postalCode === 'string' ? data.postalCode.trim().toUpperCase() : undefined;
+    const format = country ? POSTAL_CODE_FORMATS[country] : undefined;
+    if (postalCode === undefined || !(format?.pattern ?? GENERIC_POSTAL_CODE).test(postalCode)) {
+      details.push(
+        detail(
+          `${field}.postalCode`,
+          'format',
+          format
+            ? `${field}.postalCode must be a valid ${country} postal code, e.g. ${format.example}`
+            : `${field}.postalCode must be 1-10 letters, digits, spaces or hyphens`
+        )
+      );
+    } else {
+      address.postalCode = postalCode;
+    }
+  }
+
+  if (details.length > found) {
+    return undefined;
+  }
+
+  const jurisdiction = resolveJurisdiction(address);
+  if (taxable && !isSupportedJurisdiction(jurisdiction)) {
+    details.push(
+      detail(
+        field,
+        'jurisdiction',
+        `${field} is outside a supported tax jurisdiction (${jurisdiction})`
+      )
+    );
+    return undefined;
+  }
+
+  return address;
+}
+
+/**
+ * Validate an optional free-text field: trimmed, 1 to `maxLength`
+ * characters, with no control characters
+ */
+function validateText(
+  value: unknown,
+  field: string,
+  maxLength: number,
+  details: ErrorDetail[]
+): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    details.push(detail(field, 'type', `${field} must be a string`));
+    return undefined;
   }
 
-  const { token } = body as Record<string, unknown>;
+  const text = value.trim();
+  if (text.length === 0 || text.length > maxLength) {
+    details.push(detail(field, 'length', `${field} must be 1-${maxLength} characters`));
+    return undefined;
+  }
+  if (/\p{Cc}/u.test(text)) {
+    details.push(detail(field, 'format', `${field} must not contain control characters`));
+    return undefined;
+  }
+  return text;
+}
+
+/**
+ * Validate create cart request
+ * The body is optional; without a currency the cart uses the default
+ */
+export function validateCreateCartRequest(body: unknown): { currency: string } {
+  if (body === undefined) {
+    return { currency: DEFAULT_CURRENCY };
+  }
+
+  const { currency } = requireObject(body);
+
+  if (currency !== undefined && typeof currency !== 'string') {
+    throw invalid('currency', 'type', 'currency must be a string');
+  }
+
+  return { currency: validateCurrency(currency) };
+}
+
+/**
+ * Validate apply coupon request
+ */
+export function validateCouponRequest(body: unknown): { code: string } {
+  const { code } = requireObject(body);
+
+  if (typeof code !== 'string' || code.trim().length === 0) {
+    throw invalid('code', 'required', 'code must be a non-empty string');
+  }
+
+  return { code: code.trim() };
+}
+
+/**
+ * Validate cart status update request
+ */
+export function validateStatusRequest(body: unknown): { status: CartStatus } {
+  const { status } = requireObject(body);
+
+  if (!REQUESTABLE_STATUSES.includes(status as CartStatus)) {
+    throw invalid(
+      'status',
+      'enum',
+      `status must be one of ${REQUESTABLE_STATUSES.join(', ')}`
+    );
+  }
+
+  return { status: status as CartStatus };
+}
+
+/**
+ * Validate cart merge request
+ * Body: { sourceCartId, strategy? }; the strategy defaults to sum
+ */
+export function validateMergeRequest(body: unknown): {
+  sourceCartId: string;
+  strategy: MergeStrategy;
+} {
+  const { sourceCartId, strategy = 'sum' } = requireObject(body);
+  const details: ErrorDetail[] = [];
+
+  if (typeof sourceCartId !== 'string' || sourceCartId.length === 0) {
+    details.push(detail('sourceCartId', 'required', 'sourceCartId must be a non-empty string'));
+  }
+  if (!MERGE_STRATEGIES.includes(strategy as MergeStrategy)) {
+    details.push(
+      detail('strategy', 'enum', `strategy must be one of ${MERGE_STRATEGIES.join(', ')}`)
+    );
+  }
+
+  throwIfInvalid(details);
+  return { sourceCartId: sourceCartId as string, strategy: strategy as MergeStrategy };
+}
+
+/**
+ * Validate rehydration request
+ */
+export function validateRehydrationRequest(body: unknown): { token: string } {
+  const { token } = requireObject(body);
 
   if (typeof token !== 'string' || token.trim().length === 0) {
-    throw new ValidationError('token must be a non-empty string');
+    throw invalid('token', 'required', 'token must be a non-empty string');
   }
 
   return { token };
 }
 
+/**
+ * Validate catalog listing query parameters
+ */
+export function validateCatalogQuery(query: Record<string, string | undefined>): {
+  type?: ProductType;
+  jurisdiction: string;
+  currency: string;
+  page: number;
+  pageSize: number;
+} {
+  const { type } = query;
+  const details: ErrorDetail[] = [];
+
+  if (type !== undefined && !PRODUCT_TYPES.includes(type as ProductType)) {
+    details.push(detail('type', 'enum', `type must be one of ${PRODUCT_TYPES.join(', ')}`));
+  }
+
+  const page = parsePositiveInt(query.page, 'page', 1, details);
+  const pageSize = parsePositiveInt(query.pageSize, 'pageSize', DEFAULT_PAGE_SIZE, details);
+  if (pageSize > MAX_PAGE_SIZE) {
+    details.push(detail('pageSize', 'range', `pageSize must be <= ${MAX_PAGE_SIZE}`));
+  }
+
+  const pricing = validatePricingQuery(query, details);
+
+  throwIfInvalid(details);
+  return { type: type as ProductType | undefined, ...pricing, page, pageSize };
+}
+
+/**
+ * Validate single product query parameters
+ */
+export function validateProductQuery(query: Record<string, string | undefined>): {
+  jurisdiction: string;
+  currency: string;
+} {
+  const details: ErrorDetail[] = [];
+  const pricing = validatePricingQuery(query, details);
+  throwIfInvalid(details);
+  return pricing;
+}
+
+/**
+ * Validate an optional tax jurisdiction key, falling back to the default
+ */
+export function validateJurisdiction(jurisdiction: string | undefined): string {
+  if (jurisdiction === undefined) {
+    return resolveJurisdiction();
+  }
+  if (!isSupportedJurisdiction(jurisdiction)) {
+    throw invalid('jurisdiction', 'supported', `Unsupported tax jurisdiction: ${jurisdiction}`);
+  }
+  return jurisdiction;
+}
+
+/**
+ * Validate an optional currency code, falling back to the default
+ * A currency is supported if at least one catalog product is priced in it
+ */
+export function validateCurrency(currency: string | undefined): string {
+  if (currency === undefined) {
+    return DEFAULT_CURRENCY;
+  }
+  if (!catalog.currencies().includes(currency)) {
+    throw invalid('currency', 'supported', `Unsupported currency: ${currency}`);
+  }
+  return currency;
+}
+
+/**
+ * Validate the jurisdiction and currency query parameters products are
+ * priced in, recording both if invalid
+ */
+function validatePricingQuery(
+  query: Record<string, string | undefined>,
+  details: ErrorDetail[]
+): { jurisdiction: string; currency: string } {
+  return {
+    jurisdiction: collect(details, () => validateJurisdiction(query.jurisdiction)) ?? '',
+    currency: collect(details, () => validateCurrency(query.currency)) ?? '',
+  };
+}
+
+/**
+ * Parse an optional positive integer query parameter
+ * Returns the fallback, recording the problem, if it isn't one
+ */
+function parsePositiveInt(
+  value: string | undefined,
+  name: string,
+  fallback: number,
+  details: ErrorDetail[]
+): number {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!isPositiveInteger(parsed)) {
+    details.push(detail(name, 'range', `${name} must be an integer >= 1`));
+    return fallback;
+  }
+  return parsed;
+}
+
+/**
+ * Whether a number is an integer >= 1
+ */
+function isPositiveInteger(value: number): boolean {
+  return Number.isInteger(value) && value >= 1;
+}
+
+/**
+ * Whether an MSISDN is 8-15 digits, optionally prefixed with +
+ */
+function isValidMsisdn(msisdn: string): boolean {
+  return /^\+?[1-9]\d{7,14}$/.test(msisdn);
+}
+
+/**
+ * Get a request body as an object
+ * Throws ValidationError if it's anything else
+ */
+function requireObject(body: unknown): Record<string, unknown> {
+  if (!body || typeof body !== 'object') {
+    throw invalid('', 'type', 'Request body must be an object');
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Run a validator, recording the details of a ValidationError it throws
+ * instead of letting it escape
+ */
+function collect<T>(details: ErrorDetail[], validate: () => T): T | undefined {
+  try {
+    return validate();
+  } catch (error) {
+    if (!(error instanceof ValidationError)) {
+      throw error;
+    }
+    details.push(...(error.details ?? []));
+    return undefined;
+  }
+}
+
+/**
+ * An error detail for a dotted field name, e.g. `serviceAddress.city`
+ * The empty name points at the whole request
+ */
+function detail(field: string, rule: string, message: string): ErrorDetail {
+  return { path: field && `/${field.split('.').join('/')}`, rule, message };
+}
+
+/**
+ * A ValidationError for a single invalid field
+ */
+function invalid(field: string, rule: string, message: string): ValidationError {
+  return new ValidationError(message, [detail(field, rule, message)]);
+}
+
+/**
+ * Throw a ValidationError carrying every detail found, if there are any
+ */
+function throwIfInvalid(details: ErrorDetail[]): void {
+  if (details.length > 0) {
+    throw new ValidationError(details.map((d) => d.message).join('; '), details);
+  }
+}
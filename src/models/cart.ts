@@ -1,32 +1,131 @@
-import { Cart, CartItem, CartTotals } from './types.js';
-import { getPrice, TAX_RATE } from '../config/pricing.js';
+import {
+  Cart,
+  CartItem,
+  CartLine,
+  CartStatus,
+  CartTotals,
+  ChargeTotals,
+  ChargeType,
+  CustomerInfo,
+  Money,
+  PricingContext,
+  SavedItem,
+  SharedCart,
+} from './types.js';
+import { catalog } from '../config/catalog.js';
+import { DEFAULT_CURRENCY, getProduct } from '../config/pricing.js';
+import { allocatePromotions, amountsByCharge, resolvePromotions } from './promotions.js';
+import { billedAmounts, installmentPlan } from './financing.js';
+import {
+  allocateDiscount,
+  calculateTaxes,
+  resolveJurisdiction,
+  type AmountsByType,
+} from './tax.js';
 
 /**
- * Calculate cart totals using mock pricing data
+ * Calculate cart totals using catalog pricing in the context's currency
+ * One-time and recurring charges are totalled separately. Automatic
+ * promotions and applied coupons are discounted before tax, and each kind
+ * of charge is taxed on its own under the rules of the cart's jurisdiction
  */
-export function calculateTotals(items: CartItem[]): CartTotals {
-  const subtotal = items.reduce((sum, item) => {
-    const price = getPrice(item.sku);
-    return sum + price * item.quantity;
-  }, 0);
-  
-  const tax = Math.round(subtotal * TAX_RATE);
-  const total = subtotal + tax;
+export function calculateTotals(
+  items: CartItem[],
+  context: PricingContext = {}
+): CartTotals {
+  const currency = context.currency ?? DEFAULT_CURRENCY;
+  const money = (amount: number): Money => ({ amount, currency });
+  const jurisdiction = context.jurisdiction ?? resolveJurisdiction();
+
+  const lines = (context.lineIds ?? []).map((lineId) => {
+    const amounts = amountsByCharge(
+      items.filter((item) => item.lineId === lineId),
+      currency
+    );
+    return {
+      lineId,
+      dueToday: money(amounts.oneTime),
+      monthly: money(amounts.recurring),
+    };
+  });
+
+  const { discounts, byItem } = allocatePromotions(
+    items,
+    resolvePromotions(context.coupons ?? [], new Date()),
+    currency
+  );
+  const installments = items
+    .map((item) => installmentPlan(item, currency, byItem[item.itemId]))
+    .filter((plan) => plan !== undefined);
+
+  const discounted = (part: 'dueToday' | 'monthly') =>
+    discounts.reduce((sum, d) => sum + d[part].amount, 0);
+
+  return {
+    dueToday: chargeTotals(items, 'oneTime', discounted('dueToday'), jurisdiction, currency),
+    monthly: chargeTotals(items, 'recurring', discounted('monthly'), jurisdiction, currency),
+    lines,
+    discounts,
+    installments,
+  };
+}
+
+/**
+ * Totals for one kind of charge, with its share of the discount
+ */
+function chargeTotals(
+  items: CartItem[],
+  chargeType: ChargeType,
+  discount: number,
+  jurisdiction: string,
+  currency: string
+): ChargeTotals {
+  const money = (amount: number): Money => ({ amount, currency });
 
-  return { subtotal, tax, total };
+  const amounts: AmountsByType = {};
+  for (const item of items) {
+    const billed = billedAmounts(item, currency)[chargeType];
+    if (billed === 0) {
+      continue;
+    }
+    const { type } = getProduct(item.sku);
+    amounts[type] = (amounts[type] ?? 0) + billed;
+  }
+  const subtotal = Object.values(amounts).reduce((sum, amount) => sum + amount, 0);
+
+  const taxes = calculateTaxes(allocateDiscount(amounts, discount), jurisdiction, currency);
+  const taxTotal = taxes.reduce((sum, line) => sum + line.amount.amount, 0);
+
+  return {
+    subtotal: money(subtotal),
+    discount: money(discount),
+    taxes,
+    taxTotal: money(taxTotal),
+    total: money(subtotal - discount + taxTotal),
+  };
 }
 
 /**
- * Create a new cart with computed totals
+ * Create a new cart priced in a fixed currency, with computed totals
  */
-export function createCart(id: string, ttlMs: number): Cart {
+export function createCart(
+  id: string,
+  ttlMs: number,
+  currency: string = DEFAULT_CURRENCY
+): Cart {
   const now = new Date();
   const expiresAt = new Date(now.getTime() + ttlMs);
 
   return {
     id,
+    version: 1,
+    status: 'ACTIVE',
+    currency,
+    lines: [],
     items: [],
-    totals: { subtotal: 0, tax: 0, total: 0 },
+    savedItems: [],
+    totals: calculateTotals([], { currency }),
+    coupons: [],
     createdAt: now,
     updatedAt: now,
     expiresAt,
@@ -34,10 +133,18 @@ export function createCart(id: string, ttlMs: number): Cart {
 }
 
 /**
- * Merge an item into the cart by sku
+ * Merge an item into the cart by sku, line and payment option
  */
-export function mergeItem(cart: Cart, sku: string, quantity: number): Cart {
-  const existingIndex = cart.items.findIndex((item) => item.sku === sku);
+export function mergeItem(
+  cart: Cart,
+  sku: string,
+  quantity: number,
+  lineId?: string,
+  payment?: CartItem['payment']
+): Cart {
+  const existingIndex = cart.items.findIndex((item) =>
+    isSameItem(item, { sku, lineId, payment })
+  );
   let updatedItems: CartItem[];
 
   if (existingIndex >= 0) {
@@ -51,16 +158,13 @@ export function mergeItem(cart: Cart, sku: string, quantity: number): Cart {
       itemId: crypto.randomUUID(),
       sku,
       quantity,
+      ...(lineId && { lineId }),
+      ...(payment && { payment }),
     };
     updatedItems = [...cart.items, newItem];
   }
 
-  return {
-    ...cart,
-    items: updatedItems,
-    totals: calculateTotals(updatedItems),
-    updatedAt: new Date(),
-  };
+  return withItems(cart, updatedItems);
 }
 
 /**
@@ -69,25 +173,253 @@ export function mergeItem(cart: Cart, sku: string, quantity: number): Cart {
 export function removeItem(cart: Cart, itemId: string): Cart {
   const updatedItems = cart.items.filter((item) => item.itemId !== itemId);
   
+  return withItems(cart, updatedItems);
+}
+
+/**
+ * Set an item's quantity by itemId, keeping its itemId
+ * A quantity of 0 removes the item
+ */
+export function setItemQuantity(
+  cart: Cart,
+  itemId: string,
+  quantity: number
+): Cart {
+  if (quantity === 0) {
+    return removeItem(cart, itemId);
+  }
+
+  const updatedItems = cart.items.map((item) =>
+    item.itemId === itemId ? { ...item, quantity } : item
+  );
+
+  return withItems(cart, updatedItems);
+}
+
+/**
+ * Add a line to the cart
+ */
+export function addLine(cart: Cart, line: Omit<CartLine, 'lineId'>): Cart {
+  const newLine: CartLine = { lineId: crypto.randomUUID(), ...line };
+  return recalculate({ ...cart, lines: [...cart.lines, newLine] });
+}
+
+/**
+ * Update a line's label or number by lineId
+ */
+export function updateLine(
+  cart: Cart,
+  lineId: string,
+  changes: Partial<Omit<CartLine, 'lineId'>>
+): Cart {
   return {
     ...cart,
-    items: updatedItems,
-    totals: calculateTotals(updatedItems),
+    lines: cart.lines.map((line) =>
+      line.lineId === lineId ? { ...line, ...changes } : line
+    ),
     updatedAt: new Date(),
   };
 }
 
 /**
- * Update customer information on the cart
+ * Remove a line and every item on it
+ * Items saved for later on the line are kept, detached from the line
  */
-export function updateCustomer(
-  cart: Cart,
-  customer: { email?: string; firstName?: string; lastName?: string }
-): Cart {
+export function removeLine(cart: Cart, lineId: string): Cart {
+  return recalculate({
+    ...cart,
+    lines: cart.lines.filter((line) => line.lineId !== lineId),
+    items: cart.items.filter((item) => item.lineId !== lineId),
+    savedItems: cart.savedItems.map((saved) => {
+      if (saved.lineId !== lineId) {
+        return saved;
+      }
+      const { lineId: _lineId, ...detached } = saved;
+      return detached;
+    }),
+  });
+}
+
+/**
+ * Move an item from the cart to the saved-for-later list, keeping its itemId
+ * If an identical item is already saved, the quantities are combined into it
+ */
+export function saveForLater(cart: Cart, itemId: string): Cart {
+  const item = cart.items.find((i) => i.itemId === itemId)!;
+  const existing = cart.savedItems.find((saved) => isSameItem(saved, item));
+  const savedItems = existing
+    ? cart.savedItems.map((saved) =>
+        saved === existing ? { ...saved, quantity: saved.quantity + item.quantity } : saved
+      )
+    : [...cart.savedItems, toSavedItem(item, cart.currency)];
+
+  return recalculate({
+    ...cart,
+    items: cart.items.filter((i) => i.itemId !== itemId),
+    savedItems,
+  });
+}
+
+/**
+ * Move a saved item back into the cart, keeping its itemId
+ * If an identical item is already in the cart, the quantities are combined
+ * into that one instead
+ */
+export function moveToCart(cart: Cart, itemId: string): Cart {
+  const { unitPrice: _unitPrice, available: _available, ...item } = cart.savedItems.find(
+    (saved) => saved.itemId === itemId
+  )!;
+  const existing = cart.items.find((i) => isSameItem(i, item));
+  const items = existing
+    ? cart.items.map((i) => (i === existing ? { ...i, quantity: i.quantity + item.quantity } : i))
+    : [...cart.items, item];
+
+  return recalculate({
+    ...cart,
+    items,
+    savedItems: cart.savedItems.filter((saved) => saved.itemId !== itemId),
+  });
+}
+
+/**
+ * Remove an item from the saved-for-later list
+ * Saved items aren't part of the totals, so nothing is recomputed
+ */
+export function removeSavedItem(cart: Cart, itemId: string): Cart {
   return {
     ...cart,
-    customer: { ...cart.customer, ...customer },
+    savedItems: cart.savedItems.filter((saved) => saved.itemId !== itemId),
     updatedAt: new Date(),
   };
 }
 
+/**
+ * Refresh the current price and availability of every saved item
+ */
+export function refreshSavedItems(cart: Cart): Cart {
+  return {
+    ...cart,
+    savedItems: cart.savedItems.map((saved) => toSavedItem(saved, cart.currency)),
+  };
+}
+
+/**
+ * Whether two items are the same line item: same SKU, line and payment terms
+ */
+export function isSameItem(
+  a: Pick<CartItem, 'sku' | 'lineId' | 'payment'>,
+  b: Pick<CartItem, 'sku' | 'lineId' | 'payment'>
+): boolean {
+  return (
+    a.sku === b.sku &&
+    a.lineId === b.lineId &&
+    a.payment?.months === b.payment?.months &&
+    a.payment?.downPayment === b.payment?.downPayment
+  );
+}
+
+/**
+ * Update customer information on the cart
+ */
+export function updateCustomer(cart: Cart, customer: CustomerInfo): Cart {
+  // The service address drives tax, so totals are recomputed
+  return recalculate({ ...cart, customer: { ...cart.customer, ...customer } });
+}
+
+/**
+ * Apply a coupon code to the cart (no-op if already applied)
+ */
+export function applyCoupon(cart: Cart, code: string): Cart {
+  if (cart.coupons.includes(code)) {
+    return cart;
+  }
+
+  return recalculate({ ...cart, coupons: [...cart.coupons, code] });
+}
+
+/**
+ * Remove a coupon code from the cart
+ */
+export function removeCoupon(cart: Cart, code: string): Cart {
+  return recalculate({
+    ...cart,
+    coupons: cart.coupons.filter((c) => c !== code),
+  });
+}
+
+/**
+ * Move the cart to a new lifecycle status
+ * Transition rules are enforced by CartService
+ */
+export function setStatus(cart: Cart, status: CartStatus): Cart {
+  return { ...cart, status, updatedAt: new Date() };
+}
+
+/**
+ * Bind the cart to the customer who owns it
+ */
+export function setOwner(cart: Cart, ownerId: string): Cart {
+  return { ...cart, ownerId, updatedAt: new Date() };
+}
+
+/**
+ * Mark the cart as checked out into an order
+ */
+export function markCheckedOut(cart: Cart, orderId: string): Cart {
+  return { ...setStatus(cart, 'CHECKED_OUT'), orderId };
+}
+
+/**
+ * Read-only view of a cart snapshot for a share link, without the cart id,
+ * customer details or line numbers
+ */
+export function toSharedCart(cart: Cart, sharedAt: Date, expiresAt: Date): SharedCart {
+  return {
+    currency: cart.currency,
+    lines: cart.lines.map(({ msisdn: _msisdn, ...line }) => line),
+    items: cart.items,
+    totals: cart.totals,
+    coupons: cart.coupons,
+    sharedAt,
+    expiresAt,
+  };
+}
+
+/**
+ * A saved item with its current price and availability from the catalog
+ * Available means the product is still sold and priced in the cart's currency
+ */
+function toSavedItem(item: CartItem, currency: string): SavedItem {
+  const { unitPrice: _unitPrice, available: _available, ...rest } = item as SavedItem;
+  const product = catalog.get(item.sku);
+  const price = product?.prices[currency];
+  return {
+    ...rest,
+    ...(price !== undefined && { unitPrice: { amount: price, currency } }),
+    available: product?.active === true && price !== undefined,
+  };
+}
+
+/**
+ * Replace the cart's items and recompute totals
+ */
+function withItems(cart: Cart, items: CartItem[]): Cart {
+  return recalculate({ ...cart, items });
+}
+
+/**
+ * Recompute totals from the cart's items, lines, currency, coupons and
+ * service address
+ */
+function recalculate(cart: Cart): Cart {
+  return {
+    ...cart,
+    totals: calculateTotals(cart.items, {
+      currency: cart.currency,
+      coupons: cart.coupons,
+      lineIds: cart.lines.map((line) => line.lineId),
+      jurisdiction: resolveJurisdiction(cart.customer?.serviceAddress),
+    }),
+    updatedAt: new Date(),
+  };
+}
@@ -0,0 +1,112 @@
+import { CartItem, CompatibilityRule, ItemSelector, RuleViolation } from './types.js';
+import { catalog } from '../config/catalog.js';
+import { compatibilityRules } from '../config/compatibility.js';
+
+/**
+ * Evaluate compatibility rules against cart items
+ * Rules apply to each line separately, with cart-level items (no line) as
+ * their own group. Returns one violation per broken rule per group.
+ */
+export function checkCompatibility(
+  items: CartItem[],
+  rules: CompatibilityRule[] = compatibilityRules
+): RuleViolation[] {
+  // Units of each SKU per group, in the order SKUs first appear
+  const groups = new Map<string | undefined, Map<string, number>>();
+  for (const item of items) {
+    const units = groups.get(item.lineId) ?? new Map<string, number>();
+    units.set(item.sku, (units.get(item.sku) ?? 0) + item.quantity);
+    groups.set(item.lineId, units);
+  }
+
+  const violations: RuleViolation[] = [];
+  for (const [lineId, units] of groups) {
+    for (const rule of rules) {
+      const broken = brokenBy(rule, units, lineId !== undefined);
+      if (broken.length > 0) {
+        violations.push({
+          ruleId: rule.id,
+          message: rule.description,
+          ...(lineId && { lineId }),
+          skus: broken,
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Violations in `after` that weren't already in `before`
+ * Used to reject a change only for the problems it introduces
+ */
+export function newViolations(
+  before: RuleViolation[],
+  after: RuleViolation[]
+): RuleViolation[] {
+  return after.filter(
+    (violation) =>
+      !before.some(
+        (existing) =>
+          existing.ruleId === violation.ruleId &&
+          existing.lineId === violation.lineId &&
+          violation.skus.every((sku) => existing.skus.includes(sku))
+      )
+  );
+}
+
+/**
+ * The exclusive rule that limits a SKU to a single unit on a line, if any
+ * (e.g. one plan per line). Cart-level items aren't limited.
+ */
+export function singleUnitRule(
+  sku: string,
+  lineId: string | undefined,
+  rules: CompatibilityRule[] = compatibilityRules
+): CompatibilityRule | undefined {
+  if (lineId === undefined) {
+    return undefined;
+  }
+  return rules.find((rule) => rule.type === 'exclusive' && matches(sku, rule.among));
+}
+
+/**
+ * SKUs in one group that break a rule, or none if the rule holds
+ * `units` maps each SKU in the group to its total quantity. On a line an
+ * exclusive rule allows a single unit; cart-level items only need distinct
+ * SKUs to hold the rule.
+ */
+function brokenBy(
+  rule: CompatibilityRule,
+  units: Map<string, number>,
+  onLine: boolean
+): string[] {
+  const skus = [...units.keys()];
+  switch (rule.type) {
+    case 'requires': {
+      const dependents = skus.filter((sku) => matches(sku, rule.when));
+      return skus.some((sku) => matches(sku, rule.requires)) ? [] : dependents;
+    }
+
+    case 'exclusive': {
+      const conflicting = skus.filter((sku) => matches(sku, rule.among));
+      const total = conflicting.reduce((sum, sku) => sum + units.get(sku)!, 0);
+      return conflicting.length > 1 || (onLine && total > 1) ? conflicting : [];
+    }
+  }
+}
+
+/**
+ * Check whether a SKU matches a selector
+ */
+function matches(sku: string, selector: ItemSelector): boolean {
+  if (selector.skus && !selector.skus.includes(sku)) {
+    return false;
+  }
+  if (selector.productTypes) {
+    const type = catalog.get(sku)?.type;
+    return type !== undefined && selector.productTypes.includes(type);
+  }
+  return true;
+}
@@ -0,0 +1,13 @@
+/**
+ * Age in whole years on a date, for a date of birth in `YYYY-MM-DD` form
+ * Birthdays are counted in UTC; someone born on 29 February turns a year
+ * older on 1 March in common years
+ */
+export function ageOn(dateOfBirth: string, date: Date): number {
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  const age = date.getUTCFullYear() - year;
+  const hadBirthday =
+    date.getUTCMonth() + 1 > month ||
+    (date.getUTCMonth() + 1 === month && date.getUTCDate() >= day);
+  return hadBirthday ? age : age - 1;
+}
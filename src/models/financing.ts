@@ -0,0 +1,79 @@
+import { CartItem, ChargeType, Installment, InstallmentPlan } from './types.js';
+import { getPrice, getProduct } from '../config/pricing.js';
+
+/**
+ * What an item bills at checkout and each month, after `discount` comes off
+ * its price
+ * A financed item bills its down payment today and its first installment
+ * monthly. Discounts come off the amount financed first, then the down
+ * payment.
+ */
+export function billedAmounts(
+  item: CartItem,
+  currency: string,
+  discount = 0
+): Record<ChargeType, number> {
+  const price = getPrice(item.sku, currency) * item.quantity - discount;
+
+  if (!item.payment) {
+    return getProduct(item.sku).chargeType === 'oneTime'
+      ? { oneTime: price, recurring: 0 }
+      : { oneTime: 0, recurring: price };
+  }
+
+  const { downPayment, financed } = splitFinancing(item, price);
+  return {
+    oneTime: downPayment,
+    recurring: installmentAmounts(financed, item.payment.months)[0],
+  };
+}
+
+/**
+ * Repayment plan for a financed item after `discount` comes off its price
+ */
+export function installmentPlan(
+  item: CartItem,
+  currency: string,
+  discount = 0
+): InstallmentPlan | undefined {
+  if (!item.payment) {
+    return undefined;
+  }
+
+  const price = getPrice(item.sku, currency) * item.quantity - discount;
+  const { downPayment, financed } = splitFinancing(item, price);
+  const schedule: Installment[] = installmentAmounts(financed, item.payment.months).map(
+    (amount, index) => ({ month: index + 1, amount: { amount, currency } })
+  );
+
+  return {
+    itemId: item.itemId,
+    sku: item.sku,
+    months: item.payment.months,
+    downPayment: { amount: downPayment, currency },
+    financed: { amount: financed, currency },
+    schedule,
+  };
+}
+
+/**
+ * Split an amount into equal monthly installments
+ * Leftover cents go to the earliest months, so no installment differs from
+ * another by more than one cent
+ */
+export function installmentAmounts(financed: number, months: number): number[] {
+  const base = Math.floor(financed / months);
+  const remainder = financed - base * months;
+  return Array.from({ length: months }, (_, index) => base + (index < remainder ? 1 : 0));
+}
+
+/**
+ * Split a financed item's price into its down payment and the amount financed
+ */
+function splitFinancing(
+  item: CartItem,
+  price: number
+): { downPayment: number; financed: number } {
+  const downPayment = Math.min((item.payment?.downPayment ?? 0) * item.quantity, price);
+  return { downPayment, financed: price - downPayment };
+}
@@ -0,0 +1,47 @@
+import { Cart, Order, OrderLine } from './types.js';
+import { getPrice, getProduct } from '../config/pricing.js';
+import { calculateTotals } from './cart.js';
+import { resolveJurisdiction } from './tax.js';
+
+/**
+ * Freeze a cart into an order, re-quoting every price from the catalog
+ * The caller is responsible for checking the cart can be checked out
+ */
+export function createOrder(id: string, cart: Cart): Order {
+  const { currency } = cart;
+
+  const lines: OrderLine[] = cart.items.map((item) => {
+    const { name, type, chargeType } = getProduct(item.sku);
+    const unitPrice = getPrice(item.sku, currency);
+    return {
+      itemId: item.itemId,
+      ...(item.lineId && { lineId: item.lineId }),
+      sku: item.sku,
+      name,
+      type,
+      chargeType,
+      quantity: item.quantity,
+      ...(item.payment && { payment: { ...item.payment } }),
+      unitPrice: { amount: unitPrice, currency },
+      lineTotal: { amount: unitPrice * item.quantity, currency },
+    };
+  });
+
+  return {
+    id,
+    cartId: cart.id,
+    currency,
+    lines,
+    serviceLines: cart.lines.map((line) => ({ ...line })),
+    totals: calculateTotals(cart.items, {
+      currency,
+      coupons: cart.coupons,
+      lineIds: cart.lines.map((line) => line.lineId),
+      jurisdiction: resolveJurisdiction(cart.customer?.serviceAddress),
+    }),
+    coupons: [...cart.coupons],
+    customer: { ...cart.customer },
+    ...(cart.ownerId !== undefined && { ownerId: cart.ownerId }),
+    placedAt: new Date(),
+  };
+}
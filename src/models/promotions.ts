@@ -0,0 +1,225 @@
+import {
+  AppliedDiscount,
+  CartItem,
+  ChargeType,
+  Promotion,
+  PromotionRule,
+  PromotionTarget,
+} from './types.js';
+import { getPrice } from '../config/pricing.js';
+import { catalog } from '../config/catalog.js';
+import { isCouponValidAt, promotionCatalog } from '../config/promotions.js';
+import { allocateDiscount } from './tax.js';
+import { billedAmounts } from './financing.js';
+
+/**
+ * A promotion to evaluate, with the coupon code that unlocked it (if any)
+ */
+export interface ActivePromotion {
+  promotion: Promotion;
+  code?: string;
+}
+
+/**
+ * Resolve automatic promotions plus those unlocked by applied coupons
+ * Coupons outside their validity window at `at` contribute nothing
+ */
+export function resolvePromotions(coupons: string[], at: Date): ActivePromotion[] {
+  const active: ActivePromotion[] = promotionCatalog
+    .automatic()
+    .map((promotion) => ({ promotion }));
+
+  for (const code of coupons) {
+    const coupon = promotionCatalog.getCoupon(code);
+    if (!coupon || !isCouponValidAt(coupon, at)) {
+      continue;
+    }
+    const promotion = promotionCatalog.getPromotion(coupon.promotionId);
+    if (promotion) {
+      active.push({ promotion, code: coupon.code });
+    }
+  }
+
+  return active;
+}
+
+/**
+ * Evaluate promotions and track how much each item is discounted
+ * Promotions that don't discount anything are omitted from `discounts`
+ * Each promotion's discount is spread across the items it discounts in
+ * proportion to their price, and no item is discounted below zero. An item's
+ * share shows up in `dueToday` or `monthly` according to how it's billed
+ */
+export function allocatePromotions(
+  items: CartItem[],
+  active: ActivePromotion[],
+  currency: string
+): { discounts: AppliedDiscount[]; byItem: Record<string, number> } {
+  const price = (item: CartItem) => getPrice(item.sku, currency) * item.quantity;
+  const byItem: Record<string, number> = {};
+  const discounts: AppliedDiscount[] = [];
+
+  for (const { promotion, code } of active) {
+    const targeted = discountedItems(items, promotion.rule);
+    const amounts = Object.fromEntries(targeted.map((item) => [item.itemId, price(item)]));
+    const afterDiscount = allocateDiscount(amounts, evaluate(items, promotion, currency));
+
+    let amount = 0;
+    let dueToday = 0;
+    let monthly = 0;
+    for (const item of targeted) {
+      const already = byItem[item.itemId] ?? 0;
+      const share = Math.min(
+        amounts[item.itemId] - afterDiscount[item.itemId],
+        price(item) - already
+      );
+      if (share <= 0) {
+        continue;
+      }
+
+      const before = billedAmounts(item, currency, already);
+      const after = billedAmounts(item, currency, already + share);
+      dueToday += before.oneTime - after.oneTime;
+      monthly += before.recurring - after.recurring;
+      amount += share;
+      byItem[item.itemId] = already + share;
+    }
+
+    if (amount <= 0) {
+      continue;
+    }
+
+    discounts.push({
+      promotionId: promotion.id,
+      ...(code && { code }),
+      description: promotion.description,
+      amount: { amount, currency },
+      dueToday: { amount: dueToday, currency },
+      monthly: { amount: monthly, currency },
+    });
+  }
+
+  return { discounts, byItem };
+}
+
+/**
+ * Discount a single promotion gives on its own
+ */
+function evaluate(items: CartItem[], promotion: Promotion, currency: string): number {
+  const rule = promotion.rule;
+
+  switch (rule.type) {
+    case 'percentage':
+      return Math.round((eligibleSubtotal(items, rule, currency) * rule.percent) / 100);
+
+    case 'fixed':
+      // Fixed discounts only apply in currencies they define an amount for
+      return Math.min(rule.amounts[currency] ?? 0, eligibleSubtotal(items, rule, currency));
+
+    case 'buyXGetY': {
+      // Every complete group of buy + get units earns `get` free units
+      const quantity = quantityOf(items, rule.sku);
+      const free = Math.floor(quantity / (rule.buy + rule.get)) * rule.get;
+      if (free === 0) {
+        return 0;
+      }
+      return free * getPrice(rule.sku, currency);
+    }
+
+    case 'bundle': {
+      // One bundle per complete set of SKUs, discounting one unit of each
+      const bundles = Math.min(...rule.skus.map((sku) => quantityOf(items, sku)));
+      if (bundles === 0) {
+        return 0;
+      }
+      const bundlePrice = rule.skus.reduce(
+        (sum, sku) => sum + getPrice(sku, currency),
+        0
+      );
+      return Math.round((bundlePrice * bundles * rule.percent) / 100);
+    }
+
+    case 'multiLine': {
+      // Discount targeted items on lines, once enough lines carry one
+      const onLines = items.filter(
+        (item) => item.lineId !== undefined && isTargeted(item.sku, rule)
+      );
+      const lines = new Set(onLines.map((item) => item.lineId)).size;
+      if (lines < rule.minLines) {
+        return 0;
+      }
+      const lineSubtotal = eligibleSubtotal(onLines, rule, currency);
+      return Math.round((lineSubtotal * rule.percent) / 100);
+    }
+  }
+}
+
+/**
+ * Items whose price a rule takes its discount from
+ */
+function discountedItems(items: CartItem[], rule: PromotionRule): CartItem[] {
+  switch (rule.type) {
+    case 'buyXGetY':
+      return items.filter((item) => item.sku === rule.sku);
+    case 'bundle':
+      return items.filter((item) => rule.skus.includes(item.sku));
+    case 'multiLine':
+      return items.filter(
+        (item) => item.lineId !== undefined && isTargeted(item.sku, rule)
+      );
+    default:
+      return items.filter((item) => isTargeted(item.sku, rule));
+  }
+}
+
+/**
+ * What items bill at checkout and each month, before discounts
+ */
+export function amountsByCharge(
+  items: CartItem[],
+  currency: string
+): Record<ChargeType, number> {
+  const amounts: Record<ChargeType, number> = { oneTime: 0, recurring: 0 };
+  for (const item of items) {
+    const billed = billedAmounts(item, currency);
+    amounts.oneTime += billed.oneTime;
+    amounts.recurring += billed.recurring;
+  }
+  return amounts;
+}
+
+/**
+ * Subtotal of the items a promotion targets
+ */
+function eligibleSubtotal(
+  items: CartItem[],
+  target: PromotionTarget,
+  currency: string
+): number {
+  return items
+    .filter((item) => isTargeted(item.sku, target))
+    .reduce((sum, item) => sum + getPrice(item.sku, currency) * item.quantity, 0);
+}
+
+/**
+ * Check whether a SKU matches a promotion target
+ */
+function isTargeted(sku: string, target: PromotionTarget): boolean {
+  if (target.skus && !target.skus.includes(sku)) {
+    return false;
+  }
+  if (target.productTypes) {
+    const type = catalog.get(sku)?.type;
+    return type !== undefined && target.productTypes.includes(type);
+  }
+  return true;
+}
+
+/**
+ * Total quantity of a SKU across cart items
+ */
+function quantityOf(items: CartItem[], sku: string): number {
+  return items
+    .filter((item) => item.sku === sku)
+    .reduce((sum, item) => sum + item.quantity, 0);
+}
@@ -0,0 +1,79 @@
+import { Address, ProductType, TaxLine } from './types.js';
+import { DEFAULT_TAX_JURISDICTION, TAX_RULES } from '../config/tax.js';
+
+/**
+ * Taxable amounts grouped by product type
+ */
+export type AmountsByType = Partial<Record<ProductType, number>>;
+
+/**
+ * Tax jurisdiction key for an address, falling back to the default
+ */
+export function resolveJurisdiction(address?: Address): string {
+  if (!address) {
+    return DEFAULT_TAX_JURISDICTION;
+  }
+  return `${address.country}-${address.province}`;
+}
+
+/**
+ * Check whether tax rules exist for a jurisdiction
+ */
+export function isSupportedJurisdiction(jurisdiction: string): boolean {
+  return TAX_RULES[jurisdiction] !== undefined;
+}
+
+/**
+ * Calculate one tax line per rule in the jurisdiction
+ * Each rule taxes the amounts of every product type it doesn't exempt,
+ * rounded to an integer per line
+ */
+export function calculateTaxes(
+  amounts: AmountsByType,
+  jurisdiction: string,
+  currency: string
+): TaxLine[] {
+  const rules = TAX_RULES[jurisdiction] ?? TAX_RULES[DEFAULT_TAX_JURISDICTION];
+
+  return rules.map((rule) => {
+    const base = Object.entries(amounts)
+      .filter(([type]) => !rule.exemptTypes?.includes(type as ProductType))
+      .reduce((sum, [, amount]) => sum + (amount ?? 0), 0);
+
+    return {
+      name: rule.name,
+      rate: rule.rate,
+      amount: { amount: Math.round(base * rule.rate), currency },
+    };
+  });
+}
+
+/**
+ * Spread a cart-level discount across groups (product types, charge types)
+ * in proportion to their amounts, so exempt and taxable lines each carry
+ * their share
+ * Rounding leftovers go to the largest group so the total is exact
+ */
+export function allocateDiscount<T extends Partial<Record<string, number>>>(
+  amounts: T,
+  discount: number
+): T {
+  const entries = Object.entries(amounts) as Array<[keyof T, number]>;
+  const subtotal = entries.reduce((sum, [, amount]) => sum + amount, 0);
+  if (discount === 0 || subtotal === 0) {
+    return amounts;
+  }
+
+  const result = {} as Record<keyof T, number>;
+  let allocated = 0;
+  for (const [key, amount] of entries) {
+    const share = Math.floor((amount * discount) / subtotal);
+    result[key] = amount - share;
+    allocated += share;
+  }
+
+  const [largest] = entries.reduce((max, entry) => (entry[1] > max[1] ? entry : max));
+  result[largest] -= discount - allocated;
+
+  return result as T;
+}
@@ -2,37 +2,396 @@
  * Core domain types for the cart API
  */
 
+export type ProductType = 'plan' | 'addon' | 'device' | 'accessory';
+
+/**
+ * How a product is billed: every month, or once at purchase
+ */
+export type ChargeType = 'recurring' | 'oneTime';
+
+/**
+ * An amount in minor units (cents) of an ISO 4217 currency
+ */
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+export interface Product {
+  sku: string;
+  name: string;
+  type: ProductType;
+  chargeType: ChargeType;
+  active: boolean;
+  /** Price list: minor units keyed by ISO 4217 currency code */
+  prices: Record<string, number>;
+}
+
+export interface ProductView extends Omit<Product, 'prices'> {
+  price: Money;
+  taxes: TaxLine[];
+  taxTotal: Money;
+  priceWithTax: Money;
+}
+
+export interface ProductPage {
+  products: ProductView[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+/**
+ * How a device is paid for; items without one are paid in full
+ */
+export type PaymentOption =
+  | { type: 'full' }
+  | {
+      type: 'installments';
+      /** Financing term, one of FINANCING_TERMS_MONTHS */
+      months: number;
+      /** Paid at checkout per unit, in minor units of the cart's currency */
+      downPayment: number;
+    };
+
 export interface CartItem {
   itemId: string;
   sku: string;
   quantity: number;
+  /** Line the item belongs to; omitted for cart-level items */
+  lineId?: string;
+  /** Financing for device items; omitted when paid in full */
+  payment?: Extract<PaymentOption, { type: 'installments' }>;
+}
+
+/**
+ * A phone line on the cart: plans and add-ons are attached to lines
+ */
+export interface CartLine {
+  lineId: string;
+  label: string;
+  /** Existing number for the line, or the number being ported in */
+  msisdn?: string;
+  /** The number will be ported from another carrier; msisdn may follow later */
+  portIn: boolean;
+}
+
+/**
+ * Which cart items a promotion applies to; omitted means every item
+ */
+export interface PromotionTarget {
+  skus?: string[];
+  productTypes?: ProductType[];
+}
+
+export type PromotionRule =
+  | ({ type: 'percentage'; percent: number } & PromotionTarget)
+  | ({ type: 'fixed'; amounts: Record<string, number> } & PromotionTarget)
+  | { type: 'buyXGetY'; sku: string; buy: number; get: number }
+  | { type: 'bundle'; skus: string[]; percent: number }
+  | ({ type: 'multiLine'; minLines: number; percent: number } & PromotionTarget);
+
+export interface Promotion {
+  id: string;
+  description: string;
+  /** Automatic promotions apply without a coupon */
+  automatic: boolean;
+  rule: PromotionRule;
+}
+
+export interface Coupon {
+  code: string;
+  promotionId: string;
+  validFrom?: Date;
+  validUntil?: Date;
+  maxRedemptions?: number;
+}
+
+/**
+ * Which cart items a compatibility rule looks at
+ * Both fields are optional; when both are set an item must match both
+ */
+export interface ItemSelector {
+  skus?: string[];
+  productTypes?: ProductType[];
+}
+
+/**
+ * Declarative plan/add-on compatibility rule
+ * - requires: if any item matches `when`, some item must match `requires`
+ * - exclusive: at most one distinct SKU may match `among`
+ */
+export type CompatibilityRule = {
+  id: string;
+  description: string;
+} & (
+  | { type: 'requires'; when: ItemSelector; requires: ItemSelector }
+  | { type: 'exclusive'; among: ItemSelector }
+);
+
+export interface RuleViolation {
+  ruleId: string;
+  message: string;
+  /** Line the violation is on; omitted for cart-level items */
+  lineId?: string;
+  /** SKUs that break the rule */
+  skus: string[];
+}
+
+export interface CartValidation {
+  valid: boolean;
+  violations: RuleViolation[];
+}
+
+export interface AppliedDiscount {
+  promotionId: string;
+  code?: string;
+  description: string;
+  amount: Money;
+  /** Taken off one-time charges and down payments */
+  dueToday: Money;
+  /**
+   * Taken off monthly charges; for a financed device, how much its first
+   * installment drops rather than its share of `amount`
+   */
+  monthly: Money;
+}
+
+export interface TaxRule {
+  name: string;
+  rate: number;
+  /** Product types this tax doesn't apply to */
+  exemptTypes?: ProductType[];
+}
+
+export interface TaxLine {
+  name: string;
+  rate: number;
+  amount: Money;
+}
+
+export interface LineSubtotal {
+  lineId: string;
+  /** Pre-discount one-time charges of the line's items */
+  dueToday: Money;
+  /** Pre-discount recurring charges of the line's items */
+  monthly: Money;
+}
+
+/**
+ * Totals for one kind of charge, taxed on their own
+ */
+export interface ChargeTotals {
+  subtotal: Money;
+  discount: Money;
+  taxes: TaxLine[];
+  taxTotal: Money;
+  total: Money;
+}
+
+export interface Installment {
+  /** 1-based month of the term */
+  month: number;
+  amount: Money;
+}
+
+/**
+ * Repayment plan for a financed item, after discounts
+ */
+export interface InstallmentPlan {
+  itemId: string;
+  sku: string;
+  months: number;
+  /** Paid at checkout, part of `dueToday` */
+  downPayment: Money;
+  /** Left to pay over the term */
+  financed: Money;
+  schedule: Installment[];
 }
 
 export interface CartTotals {
-  subtotal: number;
-  tax: number;
-  total: number;
+  /** One-time charges and down payments, paid at checkout */
+  dueToday: ChargeTotals;
+  /** Recurring charges and the first month's installments, billed every month */
+  monthly: ChargeTotals;
+  lines: LineSubtotal[];
+  /** Discounts across both kinds of charge; each is split between them */
+  discounts: AppliedDiscount[];
+  installments: InstallmentPlan[];
+}
+
+/**
+ * Cart state that affects totals besides the items themselves
+ */
+export interface PricingContext {
+  /** ISO 4217 currency; defaults to DEFAULT_CURRENCY */
+  currency?: string;
+  coupons?: string[];
+  /** Lines to report subtotals for, in cart order */
+  lineIds?: string[];
+  /** Tax jurisdiction key, e.g. `CA-ON`; defaults to DEFAULT_TAX_JURISDICTION */
+  jurisdiction?: string;
+}
+
+export interface Address {
+  line1?: string;
+  line2?: string;
+  city?: string;
+  /** Province or state code, e.g. `ON` */
+  province: string;
+  /** Upper-cased and checked against the country's format */
+  postalCode?: string;
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
 }
 
 export interface CustomerInfo {
   email?: string;
   firstName?: string;
   lastName?: string;
+  /** E.164, e.g. `+14165550100` */
+  phone?: string;
+  /** `YYYY-MM-DD`; required to check out a financed device */
+  dateOfBirth?: string;
+  /** Drives tax, so must be in a supported jurisdiction */
+  serviceAddress?: Address;
+  /** Where invoices are sent, if not the service address */
+  billingAddress?: Address;
 }
 
+/**
+ * Where a cart is in its lifecycle; only ACTIVE carts accept mutations
+ * Allowed transitions are enforced by CartService
+ */
+export type CartStatus =
+  | 'ACTIVE'
+  | 'LOCKED_FOR_CHECKOUT'
+  | 'CHECKED_OUT'
+  | 'ABANDONED'
+  | 'EXPIRED';
+
 export interface Cart {
   id: string;
+  version: number;
+  status: CartStatus;
+  /** Fixed at creation; every item must be priced in it */
+  currency: string;
+  lines: CartLine[];
   items: CartItem[];
+  /** Items saved for later; not part of the totals */
+  savedItems: SavedItem[];
   totals: CartTotals;
+  coupons: string[];
   customer?: CustomerInfo;
+  /** Customer the cart belongs to; unset until an authenticated request claims it */
+  ownerId?: string;
+  /** Set when the cart is checked out */
+  orderId?: string;
   createdAt: Date;
   updatedAt: Date;
   expiresAt: Date;
 }
 
-export interface RehydrationTokenPayload {
+/**
+ * An item saved for later, with its current price and availability
+ * Both are refreshed from the catalog whenever the cart is read
+ */
+export interface SavedItem extends CartItem {
+  /** Current unit price in the cart's currency; absent if it has none */
+  unitPrice?: Money;
+  /** Whether the item could be moved back to the cart's items today */
+  available: boolean;
+}
+
+/**
+ * Read-only view of a shared cart snapshot
+ * Leaves out the cart id (which grants full access), customer details and
+ * line numbers
+ */
+export interface SharedCart {
+  currency: string;
+  lines: Array<Omit<CartLine, 'msisdn'>>;
+  items: CartItem[];
+  totals: CartTotals;
+  coupons: string[];
+  /** When the snapshot was taken */
+  sharedAt: Date;
+  /** When the share link stops working */
+  expiresAt: Date;
+}
+
+/**
+ * A cart item frozen at the price quoted at checkout
+ */
+export interface OrderLine {
+  itemId: string;
+  lineId?: string;
+  sku: string;
+  name: string;
+  type: ProductType;
+  chargeType: ChargeType;
+  quantity: number;
+  payment?: CartItem['payment'];
+  unitPrice: Money;
+  lineTotal: Money;
+}
+
+/**
+ * Immutable record of a checked-out cart
+ */
+export interface Order {
+  id: string;
+  cartId: string;
+  currency: string;
+  lines: OrderLine[];
+  /** Phone lines the order's items are attached to */
+  serviceLines: CartLine[];
+  totals: CartTotals;
+  coupons: string[];
+  customer: CustomerInfo;
+  /** Owner of the cart the order came from, if it was claimed */
+  ownerId?: string;
+  placedAt: Date;
+}
+
+/**
+ * Cart state a rehydration token can restore
+ */
+export interface RehydrationState {
+  currency?: string;
+  customer?: CustomerInfo;
+  lines?: CartLine[];
+  items: Array<Pick<CartItem, 'sku' | 'quantity' | 'lineId' | 'payment'>>;
+  coupons?: string[];
+}
+
+/**
+ * Optional claims that make a token single-use and revocable
+ */
+export interface TokenClaims {
+  /** Unique token id; a token with one can only create one cart */
+  jti?: string;
+  /** Cart the token was issued for, so its tokens can be revoked together */
+  cartId?: string;
+  /** The cart's revocation count when the token was issued */
+  gen?: number;
+}
+
+export interface RehydrationTokenPayload extends RehydrationState, TokenClaims {
+  /** Schema version; tokens without one carry only items */
+  v?: number;
   iat: number;
-  items: Array<{ sku: string; quantity: number }>;
+}
+
+/**
+ * Part of a token's cart state that couldn't be restored
+ */
+export interface RehydrationWarning {
+  /** JSON pointer into the token's cart state, e.g. `/items/0` */
+  path: string;
+  /** Error code explaining why, e.g. UNKNOWN_SKU or INVALID_COUPON */
+  code: string;
+  message: string;
 }
 
 export interface CartResponse {
@@ -40,3 +399,63 @@ export interface CartResponse {
   rehydrationToken: string;
 }
 
+export interface RehydrationResponse extends CartResponse {
+  warnings: RehydrationWarning[];
+}
+
+/**
+ * How to combine an item that's in both carts when merging
+ * - `sum`: add the quantities
+ * - `keepTarget` / `keepSource`: take one cart's quantity
+ * - `max`: take the larger quantity
+ * `keepSource` also lets the source cart's plan replace the target's on the
+ * same line; the other strategies keep the target's plan.
+ */
+export type MergeStrategy = 'sum' | 'keepTarget' | 'keepSource' | 'max';
+
+/**
+ * A source cart item that made it into the target cart
+ */
+export interface MergedItem {
+  /** Target cart item it ended up as */
+  itemId: string;
+  sku: string;
+  lineId?: string;
+  /** Quantity of the target item after the merge */
+  quantity: number;
+}
+
+/**
+ * A source cart item that was left out
+ */
+export interface DroppedItem {
+  sku: string;
+  lineId?: string;
+  quantity: number;
+  /** Error code explaining why, e.g. INCOMPATIBLE_ITEMS or PRICE_UNAVAILABLE */
+  code: string;
+  message: string;
+}
+
+/**
+ * A merged item whose quantity was limited
+ */
+export interface CappedItem extends MergedItem {
+  /** Quantity the strategy asked for */
+  requested: number;
+  message: string;
+}
+
+/**
+ * What happened to each source cart item in a merge
+ */
+export interface MergeReport {
+  strategy: MergeStrategy;
+  merged: MergedItem[];
+  dropped: DroppedItem[];
+  capped: CappedItem[];
+}
+
+export interface MergeResponse extends CartResponse {
+  report: MergeReport;
+}
@@ -0,0 +1,46 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { Hono } from 'hono';
+import { CartService } from '../services/cart.service.js';
+import { UnauthorizedError } from '../lib/errors.js';
+import { jsonError } from './jsonError.js';
+
+/**
+ * Create admin routes, guarded by a shared API key
+ * Callers send `Authorization: Bearer <apiKey>`
+ */
+export function createAdminRoutes(service: CartService, apiKey: string): Hono {
+  const app = new Hono();
+  const expected = digest(apiKey);
+
+  app.use('*', async (c, next) => {
+    const header = c.req.header('Authorization') ?? '';
+    const presented = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    // Compare digests so the comparison takes the same time for any key length
+    if (!presented || !timingSafeEqual(digest(presented), expected)) {
+      return jsonError(c, new UnauthorizedError('Admin API key required'));
+    }
+    return next();
+  });
+
+  /**
+   * POST /admin/carts/:id/revoke-tokens - Revoke every rehydration token
+   * issued for a cart so far
+   */
+  app.post('/carts/:id/revoke-tokens', async (c) => {
+    try {
+      const result = await service.revokeTokens(c.req.param('id'));
+      return c.json(result);
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  return app;
+}
+
+/**
+ * SHA-256 digest of a string
+ */
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
@@ -0,0 +1,42 @@
+import type { MiddlewareHandler } from 'hono';
+import { verifyAccessToken } from '../lib/auth.js';
+import { UnauthorizedError } from '../lib/errors.js';
+import { KeyRing } from '../lib/keyRing.js';
+import { jsonError } from './jsonError.js';
+
+/**
+ * Context variables set by the auth middleware
+ */
+export interface AuthEnv {
+  Variables: {
+    /** Authenticated customer; undefined for anonymous requests */
+    customerId: string | undefined;
+  };
+}
+
+/**
+ * Customer authentication from `Authorization: Bearer <access token>`
+ *
+ * Requests without the header are anonymous. A header that is present but
+ * isn't a valid, unexpired token is rejected with 401 rather than treated as
+ * anonymous, so a client with a stale token finds out.
+ */
+export function authenticate(keys: KeyRing): MiddlewareHandler<AuthEnv> {
+  return async (c, next) => {
+    const header = c.req.header('Authorization');
+    if (header === undefined) {
+      c.set('customerId', undefined);
+      return next();
+    }
+
+    try {
+      if (!header.startsWith('Bearer ')) {
+        throw new UnauthorizedError('Authorization must be a Bearer token');
+      }
+      c.set('customerId', verifyAccessToken(header.slice('Bearer '.length), keys));
+    } catch (error) {
+      return jsonError(c, error);
+    }
+    return next();
+  };
+}
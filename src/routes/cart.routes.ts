@@ -1,37 +1,86 @@
 import { Hono } from 'hono';
 import type { Context } from 'hono';
-import { CartService } from '../services/cart.service.js';
-import { CartError, toErrorResponse, type ErrorResponse } from '../lib/errors.js';
 import {
+  CartService,
+  type AccessOptions,
+  type MutationOptions,
+} from '../services/cart.service.js';
+import { Cart } from '../models/types.js';
+import { formatEtag, parseIfMatch } from '../lib/etag.js';
+import { IdempotencyStore } from '../clients/idempotencyStore.js';
+import {
+  validateCreateCartRequest,
   validateAddItemRequest,
+  validateUpdateItemRequest,
   validateCustomerRequest,
+  validateLineRequest,
+  validateUpdateLineRequest,
+  validateCouponRequest,
+  validateStatusRequest,
+  validateMergeRequest,
   validateRehydrationRequest,
 } from '../lib/validation.js';
+import { jsonError } from './jsonError.js';
+import { optionalJson, requireJson } from './requestBody.js';
+import { idempotency } from './idempotency.middleware.js';
+import type { AuthEnv } from './auth.middleware.js';
+
+/**
+ * How long Idempotency-Key responses are kept when no store is supplied
+ */
+const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
 
 /**
- * Helper to return JSON error responses with proper status codes
+ * The caller, as identified by the auth middleware
  */
-function jsonError(c: Context, error: unknown) {
-  const response = toErrorResponse(error);
-  const status = error instanceof CartError ? error.statusCode : 500;
-  // Type assertion needed because Hono's json() expects specific status code literals
-  // Our CartError only uses valid HTTP status codes (400, 401, 404, 500)
-  return c.json(response, status as any);
+function accessOptions(c: Context<AuthEnv>): AccessOptions {
+  return { customerId: c.get('customerId') };
+}
+
+/**
+ * Read the caller and mutation preconditions from the request
+ */
+function mutationOptions(c: Context<AuthEnv>): MutationOptions {
+  return {
+    ...accessOptions(c),
+    expectedVersion: parseIfMatch(c.req.header('If-Match')),
+  };
+}
+
+/**
+ * Return a cart payload with the cart version exposed as an ETag
+ */
+function jsonCart<T extends { cart: Cart }>(
+  c: Context,
+  payload: T,
+  status: 200 | 201 = 200
+) {
+  c.header('ETag', formatEtag(payload.cart.version));
+  return c.json(payload, status);
 }
 
 /**
  * Create cart routes
  */
-export function createCartRoutes(service: CartService): Hono {
-  const app = new Hono();
+export function createCartRoutes(
+  service: CartService,
+  idempotencyStore = new IdempotencyStore(DEFAULT_IDEMPOTENCY_TTL_MS)
+): Hono<AuthEnv> {
+  const app = new Hono<AuthEnv>();
+
+  // Replay stored responses for retried POST/PATCH/DELETE requests
+  app.use('*', idempotency(idempotencyStore));
 
   /**
    * POST /cart - Create a new cart
+   * Body (optional): { currency }
    */
   app.post('/', async (c) => {
     try {
-      const result = await service.createCart();
-      return c.json(result, 201);
+      const { currency } = validateCreateCartRequest(await optionalJson(c));
+
+      const result = await service.createCart(currency, accessOptions(c));
+      return jsonCart(c, result, 201);
     } catch (error) {
       return jsonError(c, error);
     }
@@ -43,8 +92,20 @@ export function createCartRoutes(service: CartService): Hono {
   app.get('/:id', async (c) => {
     try {
       const id = c.req.param('id');
-      const cart = await service.getCart(id);
-      return c.json({ cart });
+      const cart = await service.getCart(id, accessOptions(c));
+      return jsonCart(c, { cart });
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  /**
+   * GET /cart/:id/validate - List every compatibility rule the cart breaks
+   */
+  app.get('/:id/validate', async (c) => {
+    try {
+      const result = await service.validateCart(c.req.param('id'), accessOptions(c));
+      return c.json(result);
     } catch (error) {
       return jsonError(c, error);
     }
@@ -56,11 +117,37 @@ export function createCartRoutes(service: CartService): Hono {
   app.post('/:id/items', async (c) => {
     try {
       const id = c.req.param('id');
-      const body = await c.req.json();
-      const { sku, quantity } = validateAddItemRequest(body);
-      
-      const result = await service.addItem(id, sku, quantity);
-      return c.json(result);
+      const body = await requireJson(c);
+      const { sku, quantity, lineId, payment } = validateAddItemRequest(body);
+
+      const result = await service.addItem(id, sku, quantity, {
+        ...mutationOptions(c),
+        lineId,
+        payment,
+      });
+      return jsonCart(c, result);
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  /**
+   * PATCH /cart/:id/items/:itemId - Set an item's quantity (0 removes it)
+   */
+  app.patch('/:id/items/:itemId', async (c) => {
+    try {
+      const cartId = c.req.param('id');
+      const itemId = c.req.param('itemId');
+      const body = await requireJson(c);
+      const { quantity } = validateUpdateItemRequest(body);
+
+      const result = await service.updateItemQuantity(
+        cartId,
+        itemId,
+        quantity,
+        mutationOptions(c)
+      );
+      return jsonCart(c, result);
     } catch (error) {
       return jsonError(c, error);
     }
@@ -74,8 +161,105 @@ export function createCartRoutes(service: CartService): Hono {
       const cartId = c.req.param('id');
       const itemId = c.req.param('itemId');
       
-      const cart = await service.removeItem(cartId, itemId);
-      return c.json({ cart });
+      const cart = await service.removeItem(cartId, itemId, mutationOptions(c));
+      return jsonCart(c, { cart });
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  /**
+   * POST /cart/:id/items/:itemId/save-for-later - Move an item to the
+   * saved-for-later list
+   */
+  app.post('/:id/items/:itemId/save-for-later', async (c) => {
+    try {
+      const cartId = c.req.param('id');
+      const itemId = c.req.param('itemId');
+
+      const cart = await service.saveForLater(cartId, itemId, mutationOptions(c));
+      return jsonCart(c, { cart });
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  /**
+   * POST /cart/:id/saved/:itemId/move-to-cart - Move a saved item back into
+   * the cart
+   */
+  app.post('/:id/saved/:itemId/move-to-cart', async (c) => {
+    try {
+      const cartId = c.req.param('id');
+      const itemId = c.req.param('itemId');
+
+      const cart = await service.moveToCart(cartId, itemId, mutationOptions(c));
+      return jsonCart(c, { cart });
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  /**
+   * DELETE /cart/:id/saved/:itemId - Remove an item from the saved-for-later
+   * list
+   */
+  app.delete('/:id/saved/:itemId', async (c) => {
+    try {
+      const cartId = c.req.param('id');
+      const itemId = c.req.param('itemId');
+
+      const cart = await service.removeSavedItem(cartId, itemId, mutationOptions(c));
+      return jsonCart(c, { cart });
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  /**
+   * POST /cart/:id/lines - Add a phone line
+   * Body: { label, msisdn?, portIn? }
+   */
+  app.post('/:id/lines', async (c) => {
+    try {
+      const id = c.req.param('id');
+      const body = await requireJson(c);
+      const line = validateLineRequest(body);
+
+      const cart = await service.addLine(id, line, mutationOptions(c));
+      return jsonCart(c, { cart });
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  /**
+   * PATCH /cart/:id/lines/:lineId - Rename a line or change its number
+   */
+  app.patch('/:id/lines/:lineId', async (c) => {
+    try {
+      const cartId = c.req.param('id');
+      const lineId = c.req.param('lineId');
+      const body = await requireJson(c);
+      const changes = validateUpdateLineRequest(body);
+
+      const cart = await service.updateLine(cartId, lineId, changes, mutationOptions(c));
+      return jsonCart(c, { cart });
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  /**
+   * DELETE /cart/:id/lines/:lineId - Remove a line and its items
+   */
+  app.delete('/:id/lines/:lineId', async (c) => {
+    try {
+      const cartId = c.req.param('id');
+      const lineId = c.req.param('lineId');
+
+      const cart = await service.removeLine(cartId, lineId, mutationOptions(c));
+      return jsonCart(c, { cart });
     } catch (error) {
       return jsonError(c, error);
     }
@@ -87,11 +271,111 @@ export function createCartRoutes(service: CartService): Hono {
   app.patch('/:id/customer', async (c) => {
     try {
       const id = c.req.param('id');
-      const body = await c.req.json();
+      const body = await requireJson(c);
       const customer = validateCustomerRequest(body);
       
-      const cart = await service.updateCustomerInfo(id, customer);
-      return c.json({ cart });
+      const cart = await service.updateCustomerInfo(
+        id,
+        customer,
+        mutationOptions(c)
+      );
+      return jsonCart(c, { cart });
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  /**
+   * POST /cart/:id/coupons - Apply a coupon code
+   */
+  app.post('/:id/coupons', async (c) => {
+    try {
+      const id = c.req.param('id');
+      const body = await requireJson(c);
+      const { code } = validateCouponRequest(body);
+
+      const cart = await service.applyCoupon(id, code, mutationOptions(c));
+      return jsonCart(c, { cart });
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  /**
+   * DELETE /cart/:id/coupons/:code - Remove a coupon code
+   */
+  app.delete('/:id/coupons/:code', async (c) => {
+    try {
+      const id = c.req.param('id');
+      const code = c.req.param('code');
+
+      const cart = await service.removeCoupon(id, code, mutationOptions(c));
+      return jsonCart(c, { cart });
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  /**
+   * PATCH /cart/:id/status - Move the cart to a new lifecycle status
+   * Body: { status: ACTIVE | LOCKED_FOR_CHECKOUT | ABANDONED }
+   */
+  app.patch('/:id/status', async (c) => {
+    try {
+      const id = c.req.param('id');
+      const body = await requireJson(c);
+      const { status } = validateStatusRequest(body);
+
+      const cart = await service.updateStatus(id, status, mutationOptions(c));
+      return jsonCart(c, { cart });
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  /**
+   * POST /cart/:id/checkout - Freeze the cart into an order
+   */
+  app.post('/:id/checkout', async (c) => {
+    try {
+      const id = c.req.param('id');
+
+      const result = await service.checkout(id, mutationOptions(c));
+      return jsonCart(c, result, 201);
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  /**
+   * POST /cart/:id/merge - Merge another cart into this one
+   * Body: { sourceCartId, strategy?: sum | keepTarget | keepSource | max }
+   */
+  app.post('/:id/merge', async (c) => {
+    try {
+      const id = c.req.param('id');
+      const body = await requireJson(c);
+      const { sourceCartId, strategy } = validateMergeRequest(body);
+
+      const result = await service.mergeCarts(
+        id,
+        sourceCartId,
+        strategy,
+        mutationOptions(c)
+      );
+      return jsonCart(c, result);
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  /**
+   * POST /cart/:id/share - Share a read-only snapshot of the cart
+   */
+  app.post('/:id/share', async (c) => {
+    try {
+      const result = await service.shareCart(c.req.param('id'), accessOptions(c));
+      return c.json(result, 201);
     } catch (error) {
       return jsonError(c, error);
     }
@@ -102,11 +386,11 @@ export function createCartRoutes(service: CartService): Hono {
    */
   app.post('/rehydrate', async (c) => {
     try {
-      const body = await c.req.json();
+      const body = await requireJson(c);
       const { token } = validateRehydrationRequest(body);
       
-      const result = await service.rehydrateCart(token);
-      return c.json(result, 201);
+      const result = await service.rehydrateCart(token, accessOptions(c));
+      return jsonCart(c, result, 201);
     } catch (error) {
       return jsonError(c, error);
     }
@@ -0,0 +1,41 @@
+import { Hono } from 'hono';
+import { CatalogService } from '../services/catalog.service.js';
+import { validateCatalogQuery, validateProductQuery } from '../lib/validation.js';
+import { jsonError } from './jsonError.js';
+
+/**
+ * Create catalog routes
+ */
+export function createCatalogRoutes(service: CatalogService): Hono {
+  const app = new Hono();
+
+  /**
+   * GET /catalog - List active products
+   * Query: type (plan | addon | device | accessory), jurisdiction, currency,
+   * page, pageSize
+   */
+  app.get('/', (c) => {
+    try {
+      const query = validateCatalogQuery(c.req.query());
+      return c.json(service.listProducts(query));
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  /**
+   * GET /catalog/:sku - Get a single product
+   * Query: jurisdiction, currency
+   */
+  app.get('/:sku', (c) => {
+    try {
+      const { jurisdiction, currency } = validateProductQuery(c.req.query());
+      const product = service.getProduct(c.req.param('sku'), jurisdiction, currency);
+      return c.json({ product });
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  return app;
+}
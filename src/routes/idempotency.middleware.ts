@@ -0,0 +1,95 @@
+import { createHash } from 'crypto';
+import type { MiddlewareHandler } from 'hono';
+import { IdempotencyStore } from '../clients/idempotencyStore.js';
+import {
+  ConflictError,
+  IdempotencyKeyReusedError,
+  ValidationError,
+} from '../lib/errors.js';
+import { jsonError } from './jsonError.js';
+import type { AuthEnv } from './auth.middleware.js';
+
+const IDEMPOTENT_METHODS = new Set(['POST', 'PATCH', 'DELETE']);
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Response headers replayed alongside the stored body
+ */
+const REPLAYED_HEADERS = ['content-type', 'etag'];
+
+/**
+ * Idempotency-Key support for mutations
+ *
+ * The first response for a key is stored and replayed verbatim for retries
+ * with the same caller, method, path and body. Reusing a key for a different
+ * request is rejected with 422; a retry that arrives while the first attempt
+ * is still running gets 409. Server errors (5xx) are not stored, so they can be retried.
+ */
+export function idempotency(store: IdempotencyStore): MiddlewareHandler<AuthEnv> {
+  return async (c, next) => {
+    const key = c.req.header('Idempotency-Key');
+    if (key === undefined || !IDEMPOTENT_METHODS.has(c.req.method)) {
+      return next();
+    }
+
+    if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+      return jsonError(
+        c,
+        new ValidationError(
+          `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters`
+        )
+      );
+    }
+
+    const body = await c.req.text();
+    const fingerprint = createHash('sha256')
+      .update(`${c.get('customerId') ?? ''} ${c.req.method} ${c.req.path}\n${body}`)
+      .digest('base64url');
+
+    const existing = store.get(key);
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        return jsonError(c, new IdempotencyKeyReusedError());
+      }
+      if (!existing.response) {
+        return jsonError(
+          c,
+          new ConflictError('A request with this Idempotency-Key is in progress')
+        );
+      }
+
+      const { status, headers, body: storedBody } = existing.response;
+      return new Response(storedBody, {
+        status,
+        headers: { ...headers, 'Idempotent-Replayed': 'true' },
+      });
+    }
+
+    store.begin(key, fingerprint);
+    try {
+      await next();
+    } catch (error) {
+      store.release(key);
+      throw error;
+    }
+
+    if (c.res.status >= 500) {
+      store.release(key);
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const name of REPLAYED_HEADERS) {
+      const value = c.res.headers.get(name);
+      if (value !== null) {
+        headers[name] = value;
+      }
+    }
+
+    store.complete(key, {
+      status: c.res.status,
+      headers,
+      body: await c.res.clone().text(),
+    });
+  };
+}
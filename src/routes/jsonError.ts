@@ -0,0 +1,13 @@
+import type { Context } from 'hono';
+import { CartError, toErrorResponse } from '../lib/errors.js';
+
+/**
+ * Helper to return JSON error responses with proper status codes
+ */
+export function jsonError(c: Context, error: unknown) {
+  const response = toErrorResponse(error);
+  const status = error instanceof CartError ? error.statusCode : 500;
+  // Type assertion needed because Hono's json() expects specific status code literals
+  // Our CartError only uses valid HTTP status codes (400, 401, 403, 404, 409, 412, 422, 500)
+  return c.json(response, status as any);
+}
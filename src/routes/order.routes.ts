@@ -0,0 +1,27 @@
+import { Hono } from 'hono';
+import { OrderService } from '../services/order.service.js';
+import { jsonError } from './jsonError.js';
+import type { AuthEnv } from './auth.middleware.js';
+
+/**
+ * Create order routes
+ */
+export function createOrderRoutes(service: OrderService): Hono<AuthEnv> {
+  const app = new Hono<AuthEnv>();
+
+  /**
+   * GET /orders/:id - Get an order by ID
+   */
+  app.get('/:id', async (c) => {
+    try {
+      const order = await service.getOrder(c.req.param('id'), {
+        customerId: c.get('customerId'),
+      });
+      return c.json({ order });
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  return app;
+}
@@ -0,0 +1,30 @@
+import type { Context } from 'hono';
+import { ValidationError } from '../lib/errors.js';
+
+/**
+ * Parse the JSON request body
+ * Throws ValidationError if the body is missing or isn't valid JSON
+ */
+export async function requireJson(c: Context): Promise<unknown> {
+  return parseJson(await c.req.text());
+}
+
+/**
+ * Parse an optional JSON request body; an empty body is undefined
+ * Throws ValidationError if the body isn't valid JSON
+ */
+export async function optionalJson(c: Context): Promise<unknown> {
+  const text = await c.req.text();
+  return text ? parseJson(text) : undefined;
+}
+
+/**
+ * Parse JSON text, throwing a ValidationError if it isn't valid
+ */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ValidationError('Request body must be valid JSON');
+  }
+}
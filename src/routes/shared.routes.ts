@@ -0,0 +1,42 @@
+import { Hono } from 'hono';
+import { formatEtag } from '../lib/etag.js';
+import { CartService } from '../services/cart.service.js';
+import { jsonError } from './jsonError.js';
+import type { AuthEnv } from './auth.middleware.js';
+
+/**
+ * Create routes for shared cart links
+ */
+export function createSharedRoutes(service: CartService): Hono<AuthEnv> {
+  const app = new Hono<AuthEnv>();
+
+  /**
+   * GET /shared/:token - Read-only view of a shared cart
+   */
+  app.get('/:token', async (c) => {
+    try {
+      const cart = await service.getSharedCart(c.req.param('token'));
+      return c.json({ cart });
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  /**
+   * POST /shared/:token/adopt - Create the caller's own cart from a shared one
+   * Authenticated callers own the new cart straight away
+   */
+  app.post('/:token/adopt', async (c) => {
+    try {
+      const result = await service.adoptSharedCart(c.req.param('token'), {
+        customerId: c.get('customerId'),
+      });
+      c.header('ETag', formatEtag(result.cart.version));
+      return c.json(result, 201);
+    } catch (error) {
+      return jsonError(c, error);
+    }
+  });
+
+  return app;
+}
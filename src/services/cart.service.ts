@@ -1,67 +1,342 @@
-import { SalesforceCartClient } from '../clients/salesforceCartClient.js';
-import { createCart, mergeItem, removeItem, updateCustomer } from '../models/cart.js';
-import { Cart, CartResponse } from '../models/types.js';
-import { NotFoundError } from '../lib/errors.js';
-import { createRehydrationToken, verifyToken } from '../lib/rehydration.js';
+import { CartStore } from '../clients/cartStore.js';
+import { CouponRedemptionStore } from '../clients/couponRedemptionStore.js';
+import { InMemoryOrderStore, OrderStore } from '../clients/orderStore.js';
+import { ConsumedTokenStore } from '../clients/consumedTokenStore.js';
+import { TokenRevocationStore } from '../clients/tokenRevocationStore.js';
+import { SharedCartStore, SharedSnapshot } from '../clients/sharedCartStore.js';
+import {
+  addLine,
+  applyCoupon,
+  createCart,
+  isSameItem,
+  markCheckedOut,
+  mergeItem,
+  moveToCart,
+  refreshSavedItems,
+  removeCoupon,
+  removeItem,
+  removeLine,
+  removeSavedItem,
+  saveForLater,
+  setItemQuantity,
+  setOwner,
+  setStatus,
+  toSharedCart,
+  updateCustomer,
+  updateLine,
+} from '../models/cart.js';
+import { createOrder } from '../models/order.js';
+import { ageOn } from '../models/customer.js';
+import { checkCompatibility, newViolations, singleUnitRule } from '../models/compatibility.js';
+import {
+  Cart,
+  CartItem,
+  CartLine,
+  CartResponse,
+  CartStatus,
+  CartValidation,
+  Coupon,
+  CustomerInfo,
+  MergedItem,
+  MergeReport,
+  MergeResponse,
+  MergeStrategy,
+  Order,
+  RehydrationResponse,
+  RehydrationState,
+  RehydrationWarning,
+  SharedCart,
+} from '../models/types.js';
+import {
+  CartError,
+  CartStateError,
+  CheckoutError,
+  CompatibilityError,
+  ConflictError,
+  ForbiddenError,
+  InvalidCouponError,
+  InvalidTransitionError,
+  NotFoundError,
+  PreconditionFailedError,
+  TokenError,
+  ValidationError,
+} from '../lib/errors.js';
+import {
+  createRehydrationToken,
+  createShareToken,
+  verifyShareToken,
+  verifyToken,
+  type TokenFormat,
+} from '../lib/rehydration.js';
+import { KeyRing } from '../lib/keyRing.js';
+import {
+  validateAddItemRequest,
+  validateCurrency,
+  validateCustomerRequest,
+  validateLineRequest,
+  validateUniqueMsisdn,
+} from '../lib/validation.js';
+import { catalog } from '../config/catalog.js';
+import { DEFAULT_CURRENCY, getPrice } from '../config/pricing.js';
+import { isCouponValidAt, promotionCatalog } from '../config/promotions.js';
+import { MIN_CONTRACT_AGE } from '../config/customer.js';
+
+/**
+ * Who is making a request
+ */
+export interface AccessOptions {
+  /** Authenticated customer; omitted for anonymous requests */
+  customerId?: string;
+}
+
+/**
+ * Options accepted by every cart mutation
+ */
+export interface MutationOptions extends AccessOptions {
+  /** Version the caller last saw (from If-Match); omitted means "any" */
+  expectedVersion?: number;
+}
+
+/**
+ * Options for adding an item
+ */
+export interface AddItemOptions extends MutationOptions {
+  /** Line to attach the item to; omitted for cart-level items */
+  lineId?: string;
+  /** Financing terms; omitted to pay in full */
+  payment?: CartItem['payment'];
+}
+
+/**
+ * How long share links work when no store is supplied
+ */
+const DEFAULT_SHARE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Allowed cart status transitions
+ * EXPIRED is applied by the store when a cart's TTL passes; CHECKED_OUT only
+ * by checkout
+ */
+export const CART_TRANSITIONS: Record<CartStatus, readonly CartStatus[]> = {
+  ACTIVE: ['LOCKED_FOR_CHECKOUT', 'ABANDONED', 'EXPIRED'],
+  LOCKED_FOR_CHECKOUT: ['ACTIVE', 'CHECKED_OUT', 'EXPIRED'],
+  ABANDONED: ['ACTIVE', 'EXPIRED'],
+  CHECKED_OUT: ['EXPIRED'],
+  EXPIRED: [],
+};
 
 /**
  * Cart service: business rules + token issuance
  */
 export class CartService {
   constructor(
-    private readonly client: SalesforceCartClient,
+    private readonly client: CartStore,
     private readonly ttlMs: number,
-    private readonly rehydrationSecret: string,
-    private readonly rehydrationMaxAgeMs: number
+    private readonly rehydrationKeys: KeyRing,
+    private readonly rehydrationMaxAgeMs: number,
+    private readonly couponRedemptions = new CouponRedemptionStore(),
+    private readonly orders: OrderStore = new InMemoryOrderStore(),
+    private readonly tokenFormat: TokenFormat = 'signed',
+    private readonly consumedTokens = new ConsumedTokenStore(rehydrationMaxAgeMs),
+    private readonly revokedTokens = new TokenRevocationStore(rehydrationMaxAgeMs),
+    private readonly sharedCarts = new SharedCartStore(DEFAULT_SHARE_TTL_MS)
   ) {}
 
   /**
-   * Create a new cart
+   * Create a new cart priced in the given currency
+   * The currency is fixed for the cart's lifetime. A cart created by an
+   * authenticated customer belongs to them from the start.
    */
-  async createCart(): Promise<CartResponse> {
+  async createCart(
+    currency: string = DEFAULT_CURRENCY,
+    options: AccessOptions = {}
+  ): Promise<CartResponse> {
     const id = crypto.randomUUID();
-    const cart = createCart(id, this.ttlMs);
+    const cart = this.withOwner(createCart(id, this.ttlMs, currency), options.customerId);
     await this.client.create(cart);
 
-    const token = createRehydrationToken(cart.items, this.rehydrationSecret);
-    return { cart, rehydrationToken: token };
+    return { cart, rehydrationToken: this.issueToken(cart) };
   }
 
   /**
-   * Get a cart by ID
+   * Get a cart by ID, claiming it for the caller if nobody owns it yet
+   * Throws ForbiddenError if the cart belongs to someone else
    */
-  async getCart(id: string): Promise<Cart> {
-    const cart = await this.client.get(id);
-    if (!cart) {
-      throw new NotFoundError('Cart not found or expired');
-    }
-    return cart;
+  async getCart(id: string, options: AccessOptions = {}): Promise<Cart> {
+    const cart = await this.findCart(id);
+    this.requireOwner(cart, options.customerId);
+    return this.claim(cart, options.customerId);
+  }
+
+  /**
+   * Check the cart against every compatibility rule
+   */
+  async validateCart(id: string, options: AccessOptions = {}): Promise<CartValidation> {
+    const cart = await this.getCart(id, options);
+    const violations = checkCompatibility(cart.items);
+    return { valid: violations.length === 0, violations };
   }
 
   /**
    * Add an item to the cart
+   * Throws UnknownSkuError if the SKU isn't an active catalog product,
+   * PriceUnavailableError if it has no price in the cart's currency, and
+   * CompatibilityError if it breaks a compatibility rule the cart didn't
+   * already break
    */
-  async addItem(id: string, sku: string, quantity: number): Promise<CartResponse> {
-    const cart = await this.getCart(id);
-    const updated = mergeItem(cart, sku, quantity);
-    await this.client.update(updated);
+  async addItem(
+    id: string,
+    sku: string,
+    quantity: number,
+    options: AddItemOptions = {}
+  ): Promise<CartResponse> {
+    catalog.requireActive(sku);
+    const cart = await this.getCartForUpdate(id, options);
+    const merged = this.withItem(cart, sku, quantity, options.lineId, options.payment);
 
-    const token = createRehydrationToken(
-      updated.items.map((item) => ({ sku: item.sku, quantity: item.quantity })),
-      this.rehydrationSecret
-    );
+    const updated = await this.client.update(merged);
 
-    return { cart: updated, rehydrationToken: token };
+    return { cart: updated, rehydrationToken: this.issueToken(updated) };
+  }
+
+  /**
+   * Set the quantity of an existing item, keeping its itemId
+   * A quantity of 0 removes the item
+   * Throws CompatibilityError if raising the quantity breaks a rule
+   */
+  async updateItemQuantity(
+    cartId: string,
+    itemId: string,
+    quantity: number,
+    options: MutationOptions = {}
+  ): Promise<CartResponse> {
+    const cart = await this.getCartForUpdate(cartId, options);
+    const item = cart.items.find((i) => i.itemId === itemId);
+    if (!item) {
+      throw new NotFoundError('Item not found');
+    }
+
+    const changed = setItemQuantity(cart, itemId, quantity);
+    if (quantity > item.quantity) {
+      this.requireCompatible(cart, changed);
+    }
+    const updated = await this.client.update(changed);
+
+    return { cart: updated, rehydrationToken: this.issueToken(updated) };
   }
 
   /**
    * Remove an item from the cart
    */
-  async removeItem(cartId: string, itemId: string): Promise<Cart> {
-    const cart = await this.getCart(cartId);
-    const updated = removeItem(cart, itemId);
-    await this.client.update(updated);
-    return updated;
+  async removeItem(
+    cartId: string,
+    itemId: string,
+    options: MutationOptions = {}
+  ): Promise<Cart> {
+    const cart = await this.getCartForUpdate(cartId, options);
+    return this.client.update(removeItem(cart, itemId));
+  }
+
+  /**
+   * Move an item to the cart's saved-for-later list, keeping its itemId
+   */
+  async saveForLater(
+    cartId: string,
+    itemId: string,
+    options: MutationOptions = {}
+  ): Promise<Cart> {
+    const cart = await this.getCartForUpdate(cartId, options);
+    if (!cart.items.some((item) => item.itemId === itemId)) {
+      throw new NotFoundError('Item not found');
+    }
+    return this.client.update(saveForLater(cart, itemId));
+  }
+
+  /**
+   * Move a saved item back into the cart, keeping its itemId
+   * The item is checked like a newly added one: it must still be sold in the
+   * cart's currency, its line must still exist, and it must be compatible
+   * with what's in the cart now
+   */
+  async moveToCart(
+    cartId: string,
+    itemId: string,
+    options: MutationOptions = {}
+  ): Promise<Cart> {
+    const cart = await this.getCartForUpdate(cartId, options);
+    const saved = cart.savedItems.find((item) => item.itemId === itemId);
+    if (!saved) {
+      throw new NotFoundError('Saved item not found');
+    }
+
+    this.requireSellable(cart, saved.sku, saved.lineId, saved.payment);
+    const moved = moveToCart(cart, itemId);
+    this.requireCompatible(cart, moved);
+    return this.client.update(moved);
+  }
+
+  /**
+   * Remove an item from the saved-for-later list
+   */
+  async removeSavedItem(
+    cartId: string,
+    itemId: string,
+    options: MutationOptions = {}
+  ): Promise<Cart> {
+    const cart = await this.getCartForUpdate(cartId, options);
+    if (!cart.savedItems.some((item) => item.itemId === itemId)) {
+      throw new NotFoundError('Saved item not found');
+    }
+    return this.client.update(removeSavedItem(cart, itemId));
+  }
+
+  /**
+   * Add a phone line to the cart
+   * Throws ValidationError if another line already has the number
+   */
+  async addLine(
+    cartId: string,
+    line: Omit<CartLine, 'lineId'>,
+    options: MutationOptions = {}
+  ): Promise<Cart> {
+    const cart = await this.getCartForUpdate(cartId, options);
+    validateUniqueMsisdn(cart.lines, line.msisdn);
+    return this.client.update(addLine(cart, line));
+  }
+
+  /**
+   * Rename a line or change its number
+   * Throws ValidationError if the line would be left with neither an MSISDN
+   * nor a pending port-in, or its new number is already on another line
+   */
+  async updateLine(
+    cartId: string,
+    lineId: string,
+    changes: Partial<Omit<CartLine, 'lineId'>>,
+    options: MutationOptions = {}
+  ): Promise<Cart> {
+    const cart = await this.getCartForUpdate(cartId, options);
+    const line = { ...this.requireLine(cart, lineId), ...changes };
+    if (line.msisdn === undefined && !line.portIn) {
+      throw new ValidationError('msisdn is required unless portIn is true');
+    }
+    validateUniqueMsisdn(cart.lines, changes.msisdn, lineId);
+
+    return this.client.update(updateLine(cart, lineId, changes));
+  }
+
+  /**
+   * Remove a line along with every item on it
+   */
+  async removeLine(
+    cartId: string,
+    lineId: string,
+    options: MutationOptions = {}
+  ): Promise<Cart> {
+    const cart = await this.getCartForUpdate(cartId, options);
+    this.requireLine(cart, lineId);
+
+    return this.client.update(removeLine(cart, lineId));
   }
 
   /**
@@ -69,41 +344,714 @@ export class CartService {
    */
   async updateCustomerInfo(
     cartId: string,
-    customer: { email?: string; firstName?: string; lastName?: string }
+    customer: CustomerInfo,
+    options: MutationOptions = {}
   ): Promise<Cart> {
-    const cart = await this.getCart(cartId);
-    const updated = updateCustomer(cart, customer);
-    await this.client.update(updated);
-    return updated;
+    const cart = await this.getCartForUpdate(cartId, options);
+    return this.client.update(updateCustomer(cart, customer));
   }
 
   /**
-   * Rehydrate a cart from a token
+   * Apply a coupon code to the cart
+   * Throws InvalidCouponError if the code is unknown, outside its validity
+   * window, or has reached its usage limit
+   */
+  async applyCoupon(
+    cartId: string,
+    code: string,
+    options: MutationOptions = {}
+  ): Promise<Cart> {
+    const coupon = this.requireCoupon(code);
+
+    const cart = await this.getCartForUpdate(cartId, options);
+    if (cart.coupons.includes(coupon.code)) {
+      return cart;
+    }
+
+    this.requireRedeemable(coupon);
+    return this.client.update(applyCoupon(cart, coupon.code));
+  }
+
+  /**
+   * Remove a coupon code from the cart
+   */
+  async removeCoupon(
+    cartId: string,
+    code: string,
+    options: MutationOptions = {}
+  ): Promise<Cart> {
+    const normalized = code.toUpperCase();
+    const cart = await this.getCartForUpdate(cartId, options);
+    if (!cart.coupons.includes(normalized)) {
+      throw new NotFoundError('Coupon not applied to this cart');
+    }
+
+    return this.client.update(removeCoupon(cart, normalized));
+  }
+
+  /**
+   * Move the cart to a new status, e.g. lock it while the customer pays
+   * Throws InvalidTransitionError if the transition table doesn't allow it
+   */
+  async updateStatus(
+    cartId: string,
+    status: CartStatus,
+    options: MutationOptions = {}
+  ): Promise<Cart> {
+    const cart = await this.getCartForUpdate(cartId, options, [
+      'LOCKED_FOR_CHECKOUT',
+      'ABANDONED',
+    ]);
+    if (cart.status === status) {
+      return cart;
+    }
+
+    return this.client.update(this.transition(cart, status));
+  }
+
+  /**
+   * Check out the cart: re-quote its prices, freeze it into an order and
+   * mark the cart CHECKED_OUT so it can't change afterwards
+   * An ACTIVE cart is locked for checkout on the way
+   * Throws CheckoutError if the cart is empty, has no customer email,
+   * holds items that can no longer be sold, breaks a compatibility rule, or
+   * finances a device for a customer under MIN_CONTRACT_AGE
+   */
+  async checkout(
+    cartId: string,
+    options: MutationOptions = {}
+  ): Promise<{ cart: Cart; order: Order }> {
+    const cart = await this.getCartForUpdate(cartId, options, [
+      'LOCKED_FOR_CHECKOUT',
+    ]);
+    if (cart.items.length === 0) {
+      throw new CheckoutError('Cart is empty');
+    }
+    if (!cart.customer?.email) {
+      throw new CheckoutError('Customer email is required');
+    }
+    // Financing is a contract, so the customer must be old enough to sign one
+    if (cart.items.some((item) => item.payment)) {
+      const { dateOfBirth } = cart.customer;
+      if (!dateOfBirth) {
+        throw new CheckoutError('Customer date of birth is required to finance a device');
+      }
+      if (ageOn(dateOfBirth, new Date()) < MIN_CONTRACT_AGE) {
+        throw new CheckoutError(
+          `Customer must be at least ${MIN_CONTRACT_AGE} to finance a device`
+        );
+      }
+    }
+    for (const item of cart.items) {
+      const product = catalog.get(item.sku);
+      if (!product?.active || product.prices[cart.currency] === undefined) {
+        throw new CheckoutError(`${item.sku} is no longer available`);
+      }
+    }
+    const violations = checkCompatibility(cart.items);
+    if (violations.length > 0) {
+      throw new CheckoutError(violations.map((v) => v.message).join('; '));
+    }
+
+    const locked =
+      cart.status === 'ACTIVE' ? this.transition(cart, 'LOCKED_FOR_CHECKOUT') : cart;
+    this.transition(locked, 'CHECKED_OUT');
+
+    // Coupons are redeemed by the order, so carts that are never checked out
+    // don't use up a coupon's limit
+    const redeemed: string[] = [];
+    for (const code of cart.coupons) {
+      const coupon = promotionCatalog.getCoupon(code);
+      if (!this.couponRedemptions.tryRedeem(code, coupon?.maxRedemptions)) {
+        redeemed.forEach((used) => this.couponRedemptions.release(used));
+        throw new CheckoutError(`Coupon ${code} has reached its usage limit`);
+      }
+      redeemed.push(code);
+    }
+
+    const order = createOrder(crypto.randomUUID(), cart);
+    let updated: Cart | undefined;
+    try {
+      // The version check fails if the cart changed while we were quoting
+      updated = await this.client.update(markCheckedOut(locked, order.id));
+      const stored = await this.orders.create(order);
+      return { cart: updated, order: stored };
+    } catch (error) {
+      // Orders are write-once, so it's the cart that is put back rather than
+      // left checked out with an order that was never stored
+      if (updated) {
+        await this.client.update({ ...cart, version: updated.version });
+      }
+      redeemed.forEach((code) => this.couponRedemptions.release(code));
+      throw error;
+    }
+  }
+
+  /**
+   * Merge a source cart into a target cart, e.g. a guest cart into the
+   * customer's saved cart on login
+   * Source lines join the target line with the same MSISDN, or are added.
+   * Each source item is re-validated like addItem, and an item already in the
+   * target is combined by `strategy`; nothing that fails stops the merge, it's
+   * reported as dropped instead. Source coupons move to the target, customer
+   * details fill gaps in the target's, and the source is ABANDONED.
+   * Throws ValidationError if both ids are the same cart
    */
-  async rehydrateCart(token: string): Promise<CartResponse> {
-    const payload = verifyToken(
-      token,
-      this.rehydrationSecret,
-      this.rehydrationMaxAgeMs
+  async mergeCarts(
+    targetId: string,
+    sourceId: string,
+    strategy: MergeStrategy = 'sum',
+    options: MutationOptions = {}
+  ): Promise<MergeResponse> {
+    if (targetId === sourceId) {
+      throw new ValidationError('A cart cannot be merged into itself');
+    }
+    let cart = await this.getCartForUpdate(targetId, options);
+    const source = await this.getCartForUpdate(sourceId, { customerId: options.customerId });
+    const report: MergeReport = { strategy, merged: [], dropped: [], capped: [] };
+
+    const lineIds = new Map<string, string>();
+    for (const { lineId, ...line } of source.lines) {
+      const match =
+        line.msisdn === undefined
+          ? undefined
+          : cart.lines.find((existing) => existing.msisdn === line.msisdn);
+      if (!match) {
+        cart = addLine(cart, line);
+      }
+      lineIds.set(lineId, match?.lineId ?? cart.lines[cart.lines.length - 1].lineId);
+    }
+
+    // Plans first, so add-ons that need one find it
+    const items = [...source.items].sort(
+      (a, b) => Number(isPlan(b.sku)) - Number(isPlan(a.sku))
     );
+    for (const item of items) {
+      const lineId = item.lineId === undefined ? undefined : lineIds.get(item.lineId);
+      try {
+        cart = this.mergeSourceItem(cart, { ...item, lineId }, strategy, report);
+      } catch (error) {
+        if (!(error instanceof CartError)) {
+          throw error;
+        }
+        report.dropped.push({
+          sku: item.sku,
+          ...(lineId !== undefined && { lineId }),
+          quantity: item.quantity,
+          code: error.code,
+          message: error.message,
+        });
+      }
+    }
 
-    // Create new cart
-    const id = crypto.randomUUID();
-    let cart = createCart(id, this.ttlMs);
+    cart = source.coupons.reduce(applyCoupon, cart);
+    if (source.customer) {
+      cart = updateCustomer(cart, { ...source.customer, ...cart.customer });
+    }
 
-    // Replay items
-    for (const item of payload.items) {
-      cart = mergeItem(cart, item.sku, item.quantity);
+    // Abandon the source first: if the target write then fails, the source is
+    // put back, so a retry can't merge its items twice
+    const abandoned = await this.client.update(
+      this.transition(source.coupons.reduce(removeCoupon, source), 'ABANDONED')
+    );
+    let updated: Cart;
+    try {
+      updated = await this.client.update(cart);
+    } catch (error) {
+      await this.client.update({ ...source, version: abandoned.version });
+      throw error;
     }
 
+    return { cart: updated, rehydrationToken: this.issueToken(updated), report };
+  }
+
+  /**
+   * Rehydrate a cart from a token
+   * Restores as much of the token's cart state as still holds: anything that
+   * no longer validates (a discontinued SKU, an expired coupon, a currency
+   * that's gone) is dropped and reported as a warning instead of failing the
+   * whole rehydration
+   * A token with a `jti` creates one cart: replaying it returns that cart as
+   * it is now. Throws TokenError if the token was revoked, or if the cart it
+   * created is gone
+   */
+  async rehydrateCart(
+    token: string,
+    options: AccessOptions = {}
+  ): Promise<RehydrationResponse> {
+    const state = verifyToken(token, this.rehydrationKeys, this.rehydrationMaxAgeMs);
+    if (state.cartId !== undefined && this.revokedTokens.isRevoked(state.cartId, state.gen)) {
+      throw new TokenError('Token has been revoked');
+    }
+    if (state.jti === undefined) {
+      return this.restoreCart(state, options.customerId);
+    }
+
+    const consumed = this.consumedTokens.get(state.jti);
+    if (consumed) {
+      if (consumed.cartId === null) {
+        throw new ConflictError('Token is already being redeemed');
+      }
+      const restored = await this.client.get(consumed.cartId);
+      if (!restored) {
+        throw new TokenError('Token has already been used');
+      }
+      this.requireOwner(restored, options.customerId);
+      const cart = await this.claim(restored, options.customerId);
+      return {
+        cart,
+        rehydrationToken: this.issueToken(cart),
+        warnings: consumed.warnings,
+      };
+    }
+
+    this.consumedTokens.begin(state.jti);
+    try {
+      const result = await this.restoreCart(state, options.customerId);
+      this.consumedTokens.complete(state.jti, result.cart.id, result.warnings);
+      return result;
+    } catch (error) {
+      this.consumedTokens.release(state.jti);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke every rehydration token issued for a cart so far
+   * The cart doesn't need to exist any more: its tokens can outlive it
+   */
+  async revokeTokens(cartId: string): Promise<{ cartId: string; revokedAt: Date }> {
+    return { cartId, revokedAt: new Date(this.revokedTokens.revoke(cartId)) };
+  }
+
+  /**
+   * Share a snapshot of the cart through a signed, time-limited link
+   * Later changes to the cart don't show up in the snapshot
+   */
+  async shareCart(
+    cartId: string,
+    options: AccessOptions = {}
+  ): Promise<{ shareToken: string; expiresAt: Date }> {
+    const cart = await this.getCart(cartId, options);
+    const shareId = crypto.randomUUID();
+    const { expiresAt } = this.sharedCarts.save(shareId, cart);
+
+    return {
+      shareToken: createShareToken(shareId, expiresAt, this.rehydrationKeys),
+      expiresAt: new Date(expiresAt),
+    };
+  }
+
+  /**
+   * Read-only view of a shared cart snapshot, without customer details
+   * Throws TokenError if the link is invalid or expired
+   */
+  async getSharedCart(shareToken: string): Promise<SharedCart> {
+    const { cart, sharedAt, expiresAt } = this.requireSnapshot(shareToken);
+    return toSharedCart(cart, new Date(sharedAt), new Date(expiresAt));
+  }
+
+  /**
+   * Create the caller's own cart from a shared snapshot
+   * Everything but the customer details is restored, re-validated like a
+   * rehydration; a link can be adopted any number of times
+   */
+  async adoptSharedCart(
+    shareToken: string,
+    options: AccessOptions = {}
+  ): Promise<RehydrationResponse> {
+    const { cart } = this.requireSnapshot(shareToken);
+    // The share view hides customer details and line numbers, so adopting
+    // doesn't hand them out either
+    return this.restoreCart(this.cartState(cart, false), options.customerId);
+  }
+
+  /**
+   * Create a new cart from a token's cart state, owned by `ownerId` if given
+   */
+  private async restoreCart(
+    state: RehydrationState,
+    ownerId?: string
+  ): Promise<RehydrationResponse> {
+    const warnings: RehydrationWarning[] = [];
+    const attempt = <T>(path: string, restore: () => T): T | undefined => {
+      try {
+        return restore();
+      } catch (error) {
+        if (!(error instanceof CartError)) {
+          throw error;
+        }
+        warnings.push({ path, code: error.code, message: error.message });
+        return undefined;
+      }
+    };
+
+    const currency =
+      attempt('/currency', () => validateCurrency(state.currency)) ?? DEFAULT_CURRENCY;
+    let cart = this.withOwner(createCart(crypto.randomUUID(), this.ttlMs, currency), ownerId);
+
+    // Lines get new ids, so items are re-pointed at them
+    const lineIds = new Map<string, string>();
+    (state.lines ?? []).forEach((line, index) => {
+      attempt(`/lines/${index}`, () => {
+        const valid = validateLineRequest(line);
+        validateUniqueMsisdn(cart.lines, valid.msisdn);
+        cart = addLine(cart, valid);
+        lineIds.set(line.lineId, cart.lines[cart.lines.length - 1].lineId);
+      });
+    });
+
+    for (const [field, value] of Object.entries(state.customer ?? {})) {
+      attempt(`/customer/${field}`, () => {
+        cart = updateCustomer(cart, validateCustomerRequest({ [field]: value }));
+      });
+    }
+
+    state.items.forEach((item, index) => {
+      attempt(`/items/${index}`, () => {
+        const { sku, quantity, lineId, payment } = validateAddItemRequest(item);
+        const newLineId = lineId === undefined ? undefined : lineIds.get(lineId);
+        if (lineId !== undefined && newLineId === undefined) {
+          throw new NotFoundError('Line not found');
+        }
+        cart = this.withItem(cart, sku, quantity, newLineId, payment);
+      });
+    });
+
+    (state.coupons ?? []).forEach((code, index) => {
+      attempt(`/coupons/${index}`, () => {
+        const coupon = this.requireCoupon(String(code));
+        if (cart.coupons.includes(coupon.code)) {
+          return;
+        }
+        this.requireRedeemable(coupon);
+        cart = applyCoupon(cart, coupon.code);
+      });
+    });
+
     await this.client.create(cart);
 
-    const newToken = createRehydrationToken(
-      cart.items.map((item) => ({ sku: item.sku, quantity: item.quantity })),
-      this.rehydrationSecret
+    return { cart, rehydrationToken: this.issueToken(cart), warnings };
+  }
+
+  /**
+   * Get a cart for mutation, enforcing its status and the caller's expected
+   * version
+   * ACTIVE carts are always mutable; `alsoAllowed` lists other statuses the
+   * mutation accepts
+   * Throws ForbiddenError if the cart belongs to someone else, CartStateError
+   * if the cart's status doesn't allow the mutation, and
+   * PreconditionFailedError if the cart changed since the caller read it
+   */
+  private async getCartForUpdate(
+    id: string,
+    options: MutationOptions,
+    alsoAllowed: readonly CartStatus[] = []
+  ): Promise<Cart> {
+    const cart = await this.findCart(id);
+    this.requireOwner(cart, options.customerId);
+    if (cart.status !== 'ACTIVE' && !alsoAllowed.includes(cart.status)) {
+      throw new CartStateError(cart.status);
+    }
+    if (
+      options.expectedVersion !== undefined &&
+      options.expectedVersion !== cart.version
+    ) {
+      throw new PreconditionFailedError(
+        `Cart version is ${cart.version}, expected ${options.expectedVersion}`
+      );
+    }
+    // Claimed only after the version check, which is against what the caller saw
+    return this.claim(cart, options.customerId);
+  }
+
+  /**
+   * Get a cart by ID without any access checks
+   */
+  private async findCart(id: string): Promise<Cart> {
+    const cart = await this.client.get(id);
+    if (!cart) {
+      throw new NotFoundError('Cart not found or expired');
+    }
+    return refreshSavedItems(cart);
+  }
+
+  /**
+   * Check the caller may use the cart: anyone may use an unclaimed cart, only
+   * its owner a claimed one
+   * Throws ForbiddenError otherwise
+   */
+  private requireOwner(cart: Cart, customerId: string | undefined): void {
+    if (cart.ownerId === undefined || cart.ownerId === customerId) {
+      return;
+    }
+    throw new ForbiddenError(
+      customerId === undefined
+        ? 'Cart belongs to a customer; sign in to use it'
+        : 'Cart belongs to another customer'
+    );
+  }
+
+  /**
+   * Bind an unclaimed ACTIVE cart to the authenticated caller
+   * Carts past ACTIVE are left as they are
+   */
+  private async claim(cart: Cart, customerId: string | undefined): Promise<Cart> {
+    if (customerId === undefined || cart.ownerId !== undefined || cart.status !== 'ACTIVE') {
+      return cart;
+    }
+    return this.client.update(setOwner(cart, customerId));
+  }
+
+  /**
+   * A new cart, owned by `ownerId` if given
+   */
+  private withOwner(cart: Cart, ownerId: string | undefined): Cart {
+    return ownerId === undefined ? cart : { ...cart, ownerId };
+  }
+
+  /**
+   * Get a line on the cart
+   * Throws NotFoundError if the cart has no such line
+   */
+  private requireLine(cart: Cart, lineId: string): CartLine {
+    const line = cart.lines.find((l) => l.lineId === lineId);
+    if (!line) {
+      throw new NotFoundError('Line not found');
+    }
+    return line;
+  }
+
+  /**
+   * Add an item to a cart in memory, enforcing the same rules as addItem
+   */
+  private withItem(
+    cart: Cart,
+    sku: string,
+    quantity: number,
+    lineId?: string,
+    payment?: CartItem['payment']
+  ): Cart {
+    this.requireSellable(cart, sku, lineId, payment);
+    const merged = mergeItem(cart, sku, quantity, lineId, payment);
+    this.requireCompatible(cart, merged);
+    return merged;
+  }
+
+  /**
+   * Check that an item can be sold in this cart as it stands: the product is
+   * active and priced in the cart's currency, its line exists, and any
+   * financing is valid
+   */
+  private requireSellable(
+    cart: Cart,
+    sku: string,
+    lineId?: string,
+    payment?: CartItem['payment']
+  ): void {
+    const product = catalog.requireActive(sku);
+    const price = getPrice(sku, cart.currency);
+    if (lineId !== undefined) {
+      this.requireLine(cart, lineId);
+    }
+    if (payment) {
+      if (product.type !== 'device') {
+        throw new ValidationError('Only devices can be financed');
+      }
+      if (payment.downPayment >= price) {
+        throw new ValidationError('payment.downPayment must be less than the device price');
+      }
+    }
+  }
+
+  /**
+   * Throw CompatibilityError if a change introduces compatibility violations
+   * the cart didn't already have
+   */
+  private requireCompatible(before: Cart, after: Cart): void {
+    const violations = newViolations(
+      checkCompatibility(before.items),
+      checkCompatibility(after.items)
+    );
+    if (violations.length > 0) {
+      throw new CompatibilityError(violations.map((v) => v.message).join('; '));
+    }
+  }
+
+  /**
+   * Merge one source item into the target cart and record it in the report
+   * `item.lineId` is already the target's line. Throws a CartError if the
+   * item can't be merged.
+   */
+  private mergeSourceItem(
+    cart: Cart,
+    item: CartItem,
+    strategy: MergeStrategy,
+    report: MergeReport
+  ): Cart {
+    const existing = cart.items.find((candidate) => isSameItem(candidate, item));
+    const requested = existing
+      ? combineQuantities(strategy, existing.quantity, item.quantity)
+      : item.quantity;
+    // Cap rather than drop an item the compatibility rules allow one unit of
+    const limit = singleUnitRule(item.sku, item.lineId);
+    const quantity = limit ? Math.min(requested, 1) : requested;
+
+    let merged: Cart;
+    if (existing) {
+      merged = setItemQuantity(cart, existing.itemId, quantity);
+    } else {
+      try {
+        merged = this.withItem(cart, item.sku, quantity, item.lineId, item.payment);
+      } catch (error) {
+        const canReplace =
+          error instanceof CompatibilityError && strategy === 'keepSource' && isPlan(item.sku);
+        if (!canReplace) {
+          throw error;
+        }
+        merged = this.replacePlan(cart, item, quantity);
+      }
+    }
+
+    const result = merged.items.find((candidate) => isSameItem(candidate, item))!;
+    const entry: MergedItem = {
+      itemId: result.itemId,
+      sku: result.sku,
+      ...(result.lineId !== undefined && { lineId: result.lineId }),
+      quantity: result.quantity,
+    };
+    report.merged.push(entry);
+    if (limit && quantity < requested) {
+      report.capped.push({ ...entry, requested, message: limit.description });
+    }
+    return merged;
+  }
+
+  /**
+   * Swap the plans on the item's line (or at cart level) for the item's plan
+   * Throws CompatibilityError if the swap breaks a rule the cart didn't
+   * already break, e.g. an add-on that needs the old plan
+   */
+  private replacePlan(cart: Cart, item: CartItem, quantity: number): Cart {
+    const withoutPlans = cart.items
+      .filter((existing) => existing.lineId === item.lineId && isPlan(existing.sku))
+      .reduce((current, plan) => removeItem(current, plan.itemId), cart);
+    const swapped = mergeItem(withoutPlans, item.sku, quantity, item.lineId, item.payment);
+    this.requireCompatible(cart, swapped);
+    return swapped;
+  }
+
+  /**
+   * Look up a coupon that can be applied right now
+   * Throws InvalidCouponError if the code is unknown or outside its validity
+   * window
+   */
+  private requireCoupon(code: string): Coupon {
+    const coupon = promotionCatalog.getCoupon(code);
+    if (!coupon) {
+      throw new InvalidCouponError(`Unknown coupon: ${code}`);
+    }
+    if (!isCouponValidAt(coupon, new Date())) {
+      throw new InvalidCouponError(`Coupon ${coupon.code} is not currently valid`);
+    }
+    return coupon;
+  }
+
+  /**
+   * Throws InvalidCouponError if the coupon has already reached its usage
+   * limit. Nothing is counted until checkout.
+   */
+  private requireRedeemable(coupon: Coupon): void {
+    if (!this.couponRedemptions.hasRemaining(coupon.code, coupon.maxRedemptions)) {
+      throw new InvalidCouponError(`Coupon ${coupon.code} has reached its usage limit`);
+    }
+  }
+
+  /**
+   * Get the snapshot a share token points at
+   * Throws TokenError if the token is invalid or the snapshot has expired
+   */
+  private requireSnapshot(shareToken: string): SharedSnapshot {
+    const snapshot = this.sharedCarts.get(verifyShareToken(shareToken, this.rehydrationKeys));
+    if (!snapshot) {
+      throw new TokenError('Share link expired');
+    }
+    return snapshot;
+  }
+
+  /**
+   * Move a cart to a new status if the transition table allows it
+   */
+  private transition(cart: Cart, to: CartStatus): Cart {
+    if (!CART_TRANSITIONS[cart.status].includes(to)) {
+      throw new InvalidTransitionError(`Cart can't move from ${cart.status} to ${to}`);
+    }
+    return setStatus(cart, to);
+  }
+
+  /**
+   * Cart state a rehydration token carries
+   * Customer details and line numbers are only kept when `personal` is set
+   */
+  private cartState(cart: Cart, personal: boolean): RehydrationState {
+    return {
+      currency: cart.currency,
+      ...(personal && cart.customer && { customer: cart.customer }),
+      lines: personal ? cart.lines : withoutNumbers(cart.lines),
+      items: cart.items.map(({ sku, quantity, lineId, payment }) => ({
+        sku,
+        quantity,
+        ...(lineId !== undefined && { lineId }),
+        ...(payment && { payment }),
+      })),
+      coupons: cart.coupons,
+    };
+  }
+
+  /**
+   * Issue a rehydration token for the cart's current state
+   */
+  private issueToken(cart: Cart): string {
+    return createRehydrationToken(
+      // Signed payloads are readable by whoever holds the token
+      this.cartState(cart, this.tokenFormat === 'encrypted'),
+      this.rehydrationKeys,
+      this.tokenFormat,
+      {
+        jti: crypto.randomUUID(),
+        cartId: cart.id,
+        gen: this.revokedTokens.generation(cart.id),
+      }
     );
+  }
+}
 
-    return { cart, rehydrationToken: newToken };
+/**
+ * Quantity of an item in both carts after a merge
+ */
+function combineQuantities(strategy: MergeStrategy, target: number, source: number): number {
+  switch (strategy) {
+    case 'sum':
+      return target + source;
+    case 'keepTarget':
+      return target;
+    case 'keepSource':
+      return source;
+    case 'max':
+      return Math.max(target, source);
   }
 }
 
+/**
+ * Lines without their numbers, as port-ins waiting for one
+ */
+function withoutNumbers(lines: CartLine[]): CartLine[] {
+  return lines.map(({ msisdn: _msisdn, ...line }) => ({ ...line, portIn: true }));
+}
+
+/**
+ * Whether a SKU is a plan, which the one-plan-per-line rule applies to
+ */
+function isPlan(sku: string): boolean {
+  return catalog.get(sku)?.type === 'plan';
+}
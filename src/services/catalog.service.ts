@@ -0,0 +1,78 @@
+import { Catalog } from '../config/catalog.js';
+import { calculateTaxes } from '../models/tax.js';
+import { Product, ProductPage, ProductType, ProductView } from '../models/types.js';
+import { NotFoundError, PriceUnavailableError } from '../lib/errors.js';
+
+/**
+ * Catalog service: read-only product browsing with display pricing
+ */
+export class CatalogService {
+  constructor(private readonly catalog: Catalog) {}
+
+  /**
+   * List active products priced in the requested currency, optionally
+   * filtered by type, one page at a time
+   */
+  listProducts(query: {
+    type?: ProductType;
+    jurisdiction: string;
+    currency: string;
+    page: number;
+    pageSize: number;
+  }): ProductPage {
+    const matching = this.catalog
+      .list()
+      .filter((product) => product.active)
+      .filter((product) => product.prices[query.currency] !== undefined)
+      .filter((product) => !query.type || product.type === query.type);
+
+    const start = (query.page - 1) * query.pageSize;
+    const products = matching
+      .slice(start, start + query.pageSize)
+      .map((product) => toProductView(product, query.jurisdiction, query.currency));
+
+    return {
+      products,
+      page: query.page,
+      pageSize: query.pageSize,
+      total: matching.length,
+    };
+  }
+
+  /**
+   * Get a single product by SKU
+   * Inactive products are returned so clients can explain why a SKU is unavailable
+   */
+  getProduct(sku: string, jurisdiction: string, currency: string): ProductView {
+    const product = this.catalog.get(sku);
+    if (!product) {
+      throw new NotFoundError('Product not found');
+    }
+    if (product.prices[currency] === undefined) {
+      throw new PriceUnavailableError(`${sku} is not available in ${currency}`);
+    }
+    return toProductView(product, jurisdiction, currency);
+  }
+}
+
+/**
+ * Add tax-inclusive display pricing in one currency using the same tax logic
+ * as cart totals
+ */
+function toProductView(
+  product: Product,
+  jurisdiction: string,
+  currency: string
+): ProductView {
+  const { prices, ...rest } = product;
+  const price = prices[currency];
+  const taxes = calculateTaxes({ [product.type]: price }, jurisdiction, currency);
+  const taxTotal = taxes.reduce((sum, line) => sum + line.amount.amount, 0);
+  return {
+    ...rest,
+    price: { amount: price, currency },
+    taxes,
+    taxTotal: { amount: taxTotal, currency },
+    priceWithTax: { amount: price + taxTotal, currency },
+  };
+}
@@ -0,0 +1,28 @@
+import { OrderStore } from '../clients/orderStore.js';
+import { Order } from '../models/types.js';
+import { ForbiddenError, NotFoundError } from '../lib/errors.js';
+import type { AccessOptions } from './cart.service.js';
+
+/**
+ * Order service: read access to checked-out orders
+ * Orders are created by CartService.checkout
+ */
+export class OrderService {
+  constructor(private readonly orders: OrderStore) {}
+
+  /**
+   * Get an order by ID
+   * Throws ForbiddenError if the order came from a claimed cart and the
+   * caller isn't its owner
+   */
+  async getOrder(id: string, options: AccessOptions = {}): Promise<Order> {
+    const order = await this.orders.get(id);
+    if (!order) {
+      throw new NotFoundError('Order not found');
+    }
+    if (order.ownerId !== undefined && order.ownerId !== options.customerId) {
+      throw new ForbiddenError('Order belongs to another customer');
+    }
+    return order;
+  }
+}
@@ -2,11 +2,28 @@ declare namespace NodeJS {
   interface ProcessEnv {
     PORT?: string;
     CART_TTL_MS?: string;
+    CART_EXPIRED_GRACE_MS?: string;
+    NODE_ENV?: string;
     REHYDRATION_SECRET?: string;
+    REHYDRATION_KEYS?: string;
+    REHYDRATION_ACTIVE_KID?: string;
+    REHYDRATION_TOKEN_FORMAT?: string;
     REHYDRATION_MAX_AGE_MS?: string;
     SWEEP_INTERVAL_MS?: string;
     SWEEP_SCAN_LIMIT?: string;
     SWEEP_BUDGET_MS?: string;
+    SHARE_TTL_MS?: string;
+    IDEMPOTENCY_TTL_MS?: string;
+    DEFAULT_TAX_JURISDICTION?: string;
+    DEFAULT_CURRENCY?: string;
+    MIN_CONTRACT_AGE?: string;
+    CATALOG_PATH?: string;
+    PROMOTIONS_PATH?: string;
+    COMPATIBILITY_RULES_PATH?: string;
+    CART_STORE?: string;
+    CART_STORE_PATH?: string;
+    ADMIN_API_KEY?: string;
+    AUTH_SECRET?: string;
   }
 }
 
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SalesforceCartClient } from '../src/clients/salesforceCartClient.js';
+import { CartService } from '../src/services/cart.service.js';
+import { KeyRing } from '../src/lib/keyRing.js';
+import { createAdminRoutes } from '../src/routes/admin.routes.js';
+import type { ErrorResponse } from '../src/lib/errors.js';
+
+describe('Admin Routes', () => {
+  let client: SalesforceCartClient;
+  let service: CartService;
+  let app: ReturnType<typeof createAdminRoutes>;
+  const KEYS = new KeyRing({ test: 'test-secret-min-32-chars-long-key' }, 'test');
+  const API_KEY = 'admin-key';
+
+  const revoke = (cartId: string, authorization?: string) =>
+    app.fetch(
+      new Request(`http://localhost/carts/${cartId}/revoke-tokens`, {
+        method: 'POST',
+        headers: authorization ? { Authorization: authorization } : {},
+      })
+    );
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    client = new SalesforceCartClient(900_000, 60_000, 100, 50);
+    service = new CartService(client, 900_000, KEYS, 3600_000);
+    app = createAdminRoutes(service, API_KEY);
+  });
+
+  afterEach(() => {
+    client.stopSweeper();
+    client.clear();
+    vi.restoreAllMocks();
+  });
+
+  describe('POST /admin/carts/:id/revoke-tokens', () => {
+    it('revokes the tokens issued for a cart', async () => {
+      const { cart, rehydrationToken } = await service.createCart();
+
+      const res = await revoke(cart.id, `Bearer ${API_KEY}`);
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as { cartId: string; revokedAt: string };
+      expect(body.cartId).toBe(cart.id);
+      expect(body.revokedAt).toBe(new Date().toISOString());
+      await expect(service.rehydrateCart(rehydrationToken)).rejects.toThrow(
+        'Token has been revoked'
+      );
+    });
+
+    it('returns 401 without the API key', async () => {
+      const missing = await revoke('cart-1');
+      const wrong = await revoke('cart-1', 'Bearer not-the-key');
+
+      expect(missing.status).toBe(401);
+      expect(wrong.status).toBe(401);
+      expect(((await wrong.json()) as ErrorResponse).error.code).toBe('UNAUTHORIZED');
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHmac } from 'crypto';
+import { Hono } from 'hono';
+import { SalesforceCartClient } from '../src/clients/salesforceCartClient.js';
+import { CartService } from '../src/services/cart.service.js';
+import { KeyRing } from '../src/lib/keyRing.js';
+import { createAccessToken, verifyAccessToken } from '../src/lib/auth.js';
+import { UnauthorizedError, type ErrorResponse } from '../src/lib/errors.js';
+import { loadAuthKeys } from '../src/config/auth.js';
+import { authenticate } from '../src/routes/auth.middleware.js';
+import { createCartRoutes } from '../src/routes/cart.routes.js';
+import type { CartResponse } from '../src/models/types.js';
+
+describe('Auth', () => {
+  const SECRET = 'test-auth-secret-min-32-chars-key';
+  const KEYS = new KeyRing({ test: SECRET }, 'test');
+  const HOUR_MS = 3600_000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('verifyAccessToken', () => {
+    it('returns the customer id of a valid token', () => {
+      const token = createAccessToken('cust-1', KEYS, HOUR_MS);
+
+      expect(verifyAccessToken(token, KEYS)).toBe('cust-1');
+    });
+
+    it('rejects expired tokens', () => {
+      const token = createAccessToken('cust-1', KEYS, HOUR_MS);
+
+      vi.advanceTimersByTime(HOUR_MS);
+
+      expect(() => verifyAccessToken(token, KEYS)).toThrow('Access token expired');
+    });
+
+    it('rejects tokens signed with another key', () => {
+      const other = new KeyRing({ test: `${SECRET}-other` }, 'test');
+      const token = createAccessToken('cust-1', other, HOUR_MS);
+
+      expect(() => verifyAccessToken(token, KEYS)).toThrow(UnauthorizedError);
+    });
+
+    it('rejects a tampered subject', () => {
+      const [header, , signature] = createAccessToken('cust-1', KEYS, HOUR_MS).split('.');
+      const claims = Buffer.from(
+        JSON.stringify({ sub: 'cust-2', exp: Date.now() / 1000 + 60 })
+      ).toString('base64url');
+
+      expect(() => verifyAccessToken(`${header}.${claims}.${signature}`, KEYS)).toThrow(
+        'Access token signature invalid'
+      );
+    });
+
+    it('rejects unsigned tokens', () => {
+      const header = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString(
+        'base64url'
+      );
+      const claims = Buffer.from(
+        JSON.stringify({ sub: 'cust-1', exp: Date.now() / 1000 + 60 })
+      ).toString('base64url');
+
+      expect(() => verifyAccessToken(`${header}.${claims}.`, KEYS)).toThrow(
+        'Access token algorithm not supported'
+      );
+    });
+
+    it('checks tokens without a kid against every key', () => {
+      const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString(
+        'base64url'
+      );
+      const claims = Buffer.from(
+        JSON.stringify({ sub: 'cust-1', exp: Date.now() / 1000 + 60 })
+      ).toString('base64url');
+      const signature = createHmac('sha256', SECRET)
+        .update(`${header}.${claims}`)
+        .digest('base64url');
+
+      expect(verifyAccessToken(`${header}.${claims}.${signature}`, KEYS)).toBe('cust-1');
+    });
+  });
+
+  describe('loadAuthKeys', () => {
+    it('refuses to start in production without AUTH_SECRET', () => {
+      expect(() => loadAuthKeys({ NODE_ENV: 'production' })).toThrow(/AUTH_SECRET/);
+      expect(loadAuthKeys({ AUTH_SECRET: SECRET }).activeSecret()).toBe(SECRET);
+    });
+  });
+
+  describe('cart ownership over HTTP', () => {
+    let client: SalesforceCartClient;
+    let app: Hono;
+
+    const request = (path: string, token?: string, init: RequestInit = {}) =>
+      app.fetch(
+        new Request(`http://localhost/cart${path}`, {
+          ...init,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(token && { Authorization: `Bearer ${token}` }),
+          },
+        })
+      );
+
+    beforeEach(() => {
+      client = new SalesforceCartClient(900_000, 60_000, 100, 50);
+      const service = new CartService(
+        client,
+        900_000,
+        new KeyRing({ test: 'test-secret-min-32-chars-long-key' }, 'test'),
+        3600_000
+      );
+      app = new Hono();
+      app.use('/cart/*', authenticate(KEYS));
+      app.route('/cart', createCartRoutes(service));
+    });
+
+    afterEach(() => {
+      client.stopSweeper();
+      client.clear();
+    });
+
+    it('keeps anonymous carts working until they are claimed', async () => {
+      const createRes = await request('', undefined, { method: 'POST' });
+      const created = (await createRes.json()) as CartResponse;
+      const alice = createAccessToken('alice', KEYS, HOUR_MS);
+
+      expect((await request(`/${created.cart.id}`)).status).toBe(200);
+
+      const claimed = await request(`/${created.cart.id}`, alice);
+      expect(((await claimed.json()) as CartResponse).cart.ownerId).toBe('alice');
+
+      const anonymous = await request(`/${created.cart.id}`);
+      expect(anonymous.status).toBe(403);
+      expect(((await anonymous.json()) as ErrorResponse).error.code).toBe('FORBIDDEN');
+    });
+
+    it("returns 403 FORBIDDEN for another customer's cart", async () => {
+      const alice = createAccessToken('alice', KEYS, HOUR_MS);
+      const bob = createAccessToken('bob', KEYS, HOUR_MS);
+      const createRes = await request('', alice, { method: 'POST' });
+      const created = (await createRes.json()) as CartResponse;
+
+      const read = await request(`/${created.cart.id}`, bob);
+      const write = await request(`/${created.cart.id}/customer`, bob, {
+        method: 'PATCH',
+        body: JSON.stringify({ email: 'bob@example.com' }),
+      });
+
+      expect(read.status).toBe(403);
+      expect(write.status).toBe(403);
+      expect(((await write.json()) as ErrorResponse).error.code).toBe('FORBIDDEN');
+    });
+
+    it('returns 401 for an invalid bearer token', async () => {
+      const res = await request('', 'not-a-token', { method: 'POST' });
+
+      expect(res.status).toBe(401);
+      expect(((await res.json()) as ErrorResponse).error.code).toBe('UNAUTHORIZED');
+    });
+  });
+});
@@ -3,33 +3,209 @@ import {
   createCart,
   mergeItem,
   removeItem,
+  setItemQuantity,
+  applyCoupon,
+  removeCoupon,
   updateCustomer,
   calculateTotals,
+  addLine,
+  updateLine,
+  removeLine,
+  saveForLater,
+  moveToCart,
+  removeSavedItem,
+  refreshSavedItems,
 } from '../src/models/cart.js';
+import { PriceUnavailableError } from '../src/lib/errors.js';
+
+const cad = (amount: number) => ({ amount, currency: 'CAD' });
 
 describe('Cart Model', () => {
   describe('calculateTotals', () => {
     it('calculates totals with tax rate', () => {
       const items = [
-        { itemId: '1', sku: 'SKU-001', quantity: 2 },
-        { itemId: '2', sku: 'SKU-002', quantity: 3 },
+        { itemId: '1', sku: 'PLAN-BASIC', quantity: 2 },
+        { itemId: '2', sku: 'ADDON-ROAM', quantity: 3 },
+      ];
+
+      const totals = calculateTotals(items);
+
+      expect(totals.monthly.subtotal.amount).toBe(4500); // 2 * 1500 + 3 * 500
+      expect(totals.monthly.taxes).toEqual([{ name: 'HST', rate: 0.13, amount: cad(585) }]);
+      expect(totals.monthly.taxTotal.amount).toBe(585); // 13% of 4500
+      expect(totals.monthly.total.amount).toBe(5085);
+    });
+
+    it('applies automatic bundle discount before tax', () => {
+      const items = [
+        { itemId: '1', sku: 'PLAN-5G-PLUS', quantity: 1 },
+        { itemId: '2', sku: 'ADDON-ROAM', quantity: 1 },
+      ];
+
+      const totals = calculateTotals(items);
+
+      expect(totals.monthly.subtotal.amount).toBe(3000);
+      expect(totals.monthly.discount.amount).toBe(600); // 20% of 3000
+      expect(totals.discounts[0].promotionId).toBe('BUNDLE-5G-ROAM');
+      expect(totals.monthly.taxTotal.amount).toBe(312); // 13% of 2400
+      expect(totals.monthly.total.amount).toBe(2712);
+    });
+
+    it('applies coupon discounts', () => {
+      const items = [{ itemId: '1', sku: 'PLAN-BASIC', quantity: 2 }];
+
+      const totals = calculateTotals(items, { coupons: ['WELCOME10'] });
+
+      expect(totals.monthly.discount.amount).toBe(300);
+      expect(totals.discounts[0].code).toBe('WELCOME10');
+      expect(totals.monthly.total.amount).toBe(3051); // 2700 + 351 tax
+    });
+
+    it('breaks tax down per jurisdiction rule', () => {
+      const items = [{ itemId: '1', sku: 'PLAN-BASIC', quantity: 2 }];
+
+      const totals = calculateTotals(items, { jurisdiction: 'CA-BC' });
+
+      expect(totals.monthly.taxes).toEqual([
+        { name: 'GST', rate: 0.05, amount: cad(150) },
+        { name: 'PST', rate: 0.07, amount: cad(210) },
+      ]);
+      expect(totals.monthly.total.amount).toBe(3360);
+    });
+
+    it('prices items in the requested currency', () => {
+      const items = [{ itemId: '1', sku: 'PLAN-BASIC', quantity: 2 }];
+
+      const totals = calculateTotals(items, { currency: 'USD' });
+
+      expect(totals.monthly.subtotal).toEqual({ amount: 2200, currency: 'USD' });
+      expect(totals.monthly.taxes[0].amount.currency).toBe('USD');
+      expect(totals.monthly.total).toEqual({ amount: 2486, currency: 'USD' });
+    });
+
+    it('throws for items without a price in the currency', () => {
+      const items = [{ itemId: '1', sku: 'ADDON-DATA', quantity: 1 }];
+
+      expect(() => calculateTotals(items, { currency: 'USD' })).toThrow(
+        PriceUnavailableError
+      );
+    });
+
+    it('totals one-time and recurring charges separately', () => {
+      const items = [
+        { itemId: '1', sku: 'PLAN-BASIC', quantity: 1 },
+        { itemId: '2', sku: 'DEVICE-PHONE-X', quantity: 1 },
       ];
 
       const totals = calculateTotals(items);
 
-      expect(totals.subtotal).toBe(5000); // 5 items * 1000
-      expect(totals.tax).toBe(650); // 13% of 5000
-      expect(totals.total).toBe(5650);
+      expect(totals.dueToday.subtotal.amount).toBe(99900);
+      expect(totals.dueToday.total.amount).toBe(112887); // + 12987 HST
+      expect(totals.monthly.subtotal.amount).toBe(1500);
+      expect(totals.monthly.total.amount).toBe(1695); // + 195 HST
+    });
+
+    it('splits a discount between the charges it covers', () => {
+      const items = [
+        { itemId: '1', sku: 'PLAN-BASIC', quantity: 2 },
+        { itemId: '2', sku: 'ACC-CASE', quantity: 1 },
+      ];
+
+      const totals = calculateTotals(items, { coupons: ['WELCOME10'] });
+
+      expect(totals.discounts[0]).toMatchObject({
+        amount: cad(600),
+        dueToday: cad(300),
+        monthly: cad(300),
+      });
+      expect(totals.dueToday.discount.amount).toBe(300);
+      expect(totals.dueToday.taxTotal.amount).toBe(351); // 13% of 2700
+      expect(totals.monthly.discount.amount).toBe(300);
+      expect(totals.monthly.taxTotal.amount).toBe(351);
+    });
+
+    it('keeps a targeted discount on its own kind of charge', () => {
+      const items = [
+        { itemId: '1', sku: 'PLAN-5G-PLUS', quantity: 1 },
+        { itemId: '2', sku: 'ADDON-ROAM', quantity: 1 },
+        { itemId: '3', sku: 'ACC-CASE', quantity: 1 },
+      ];
+
+      const totals = calculateTotals(items);
+
+      expect(totals.monthly.discount.amount).toBe(600);
+      expect(totals.dueToday.discount.amount).toBe(0);
+      expect(totals.dueToday.total.amount).toBe(3390);
     });
 
     it('returns zero for empty cart', () => {
       const totals = calculateTotals([]);
+      const empty = {
+        subtotal: cad(0),
+        discount: cad(0),
+        taxes: [{ name: 'HST', rate: 0.13, amount: cad(0) }],
+        taxTotal: cad(0),
+        total: cad(0),
+      };
       expect(totals).toEqual({
-        subtotal: 0,
-        tax: 0,
-        total: 0,
+        dueToday: empty,
+        monthly: empty,
+        lines: [],
+        discounts: [],
+        installments: [],
       });
     });
+
+    it('bills a financed device as a down payment plus installments', () => {
+      const items = [
+        { itemId: '1', sku: 'PLAN-BASIC', quantity: 1 },
+        {
+          itemId: '2',
+          sku: 'DEVICE-PHONE-X',
+          quantity: 1,
+          payment: { type: 'installments' as const, months: 24, downPayment: 9900 },
+        },
+      ];
+
+      const totals = calculateTotals(items);
+
+      expect(totals.dueToday.subtotal.amount).toBe(9900);
+      expect(totals.dueToday.total.amount).toBe(11187); // + 1287 HST
+      expect(totals.monthly.subtotal.amount).toBe(5250); // 1500 + 90000 / 24
+      expect(totals.monthly.total.amount).toBe(5933); // + 683 HST
+      expect(totals.installments).toEqual([
+        expect.objectContaining({
+          itemId: '2',
+          months: 24,
+          downPayment: cad(9900),
+          financed: cad(90000),
+        }),
+      ]);
+      expect(totals.installments[0].schedule).toHaveLength(24);
+    });
+
+    it('discounts a financed device before financing it', () => {
+      const items = [
+        {
+          itemId: '1',
+          sku: 'DEVICE-PHONE-X',
+          quantity: 1,
+          payment: { type: 'installments' as const, months: 24, downPayment: 0 },
+        },
+      ];
+
+      const totals = calculateTotals(items, { coupons: ['WELCOME10'] });
+
+      expect(totals.discounts[0]).toMatchObject({
+        amount: cad(9990),
+        dueToday: cad(0),
+        monthly: cad(416), // first installment drops from 4163 to 3747
+      });
+      expect(totals.installments[0].financed).toEqual(cad(89910));
+      expect(totals.monthly.subtotal.amount - totals.monthly.discount.amount).toBe(
+        totals.installments[0].schedule[0].amount.amount
+      );
+    });
   });
 
   describe('createCart', () => {
@@ -37,13 +213,21 @@ describe('Cart Model', () => {
       const cart = createCart('test-id', 900_000);
 
       expect(cart.id).toBe('test-id');
+      expect(cart.currency).toBe('CAD');
       expect(cart.items).toEqual([]);
-      expect(cart.totals.total).toBe(0);
+      expect(cart.totals.monthly.total.amount).toBe(0);
       expect(cart.createdAt).toBeInstanceOf(Date);
       expect(cart.updatedAt).toBeInstanceOf(Date);
       expect(cart.expiresAt).toBeInstanceOf(Date);
     });
 
+    it('creates a cart in a given currency', () => {
+      const cart = createCart('test-id', 900_000, 'USD');
+
+      expect(cart.currency).toBe('USD');
+      expect(cart.totals.monthly.total).toEqual({ amount: 0, currency: 'USD' });
+    });
+
     it('sets correct expiration time', () => {
       const ttl = 900_000;
       const cart = createCart('test-id', ttl);
@@ -56,66 +240,300 @@ describe('Cart Model', () => {
   describe('mergeItem', () => {
     it('adds new item to empty cart', () => {
       const cart = createCart('test-id', 900_000);
-      const updated = mergeItem(cart, 'SKU-001', 2);
+      const updated = mergeItem(cart, 'PLAN-BASIC', 2);
 
       expect(updated.items).toHaveLength(1);
-      expect(updated.items[0].sku).toBe('SKU-001');
+      expect(updated.items[0].sku).toBe('PLAN-BASIC');
       expect(updated.items[0].quantity).toBe(2);
     });
 
     it('merges quantity for existing sku', () => {
       let cart = createCart('test-id', 900_000);
-      cart = mergeItem(cart, 'SKU-001', 2);
-      cart = mergeItem(cart, 'SKU-001', 3);
+      cart = mergeItem(cart, 'PLAN-BASIC', 2);
+      cart = mergeItem(cart, 'PLAN-BASIC', 3);
 
       expect(cart.items).toHaveLength(1);
       expect(cart.items[0].quantity).toBe(5);
     });
 
+    it('keeps financed and paid-in-full devices separate', () => {
+      let cart = createCart('test-id', 900_000);
+      cart = mergeItem(cart, 'DEVICE-PHONE-X', 1);
+      cart = mergeItem(cart, 'DEVICE-PHONE-X', 1, undefined, {
+        type: 'installments',
+        months: 36,
+        downPayment: 0,
+      });
+
+      expect(cart.items).toHaveLength(2);
+      expect(cart.items[1].payment?.months).toBe(36);
+    });
+
     it('keeps different skus separate', () => {
       let cart = createCart('test-id', 900_000);
-      cart = mergeItem(cart, 'SKU-001', 2);
-      cart = mergeItem(cart, 'SKU-002', 3);
+      cart = mergeItem(cart, 'PLAN-BASIC', 2);
+      cart = mergeItem(cart, 'ADDON-ROAM', 3);
 
       expect(cart.items).toHaveLength(2);
-      expect(cart.items[0].sku).toBe('SKU-001');
-      expect(cart.items[1].sku).toBe('SKU-002');
+      expect(cart.items[0].sku).toBe('PLAN-BASIC');
+      expect(cart.items[1].sku).toBe('ADDON-ROAM');
     });
 
     it('recalculates totals after merge', () => {
       let cart = createCart('test-id', 900_000);
-      cart = mergeItem(cart, 'SKU-001', 2);
+      cart = mergeItem(cart, 'PLAN-BASIC', 2);
 
-      expect(cart.totals.total).toBe(2260); // 2000 + 260 tax
+      expect(cart.totals.monthly.total.amount).toBe(3390); // 3000 + 390 tax
     });
   });
 
   describe('removeItem', () => {
     it('removes item by itemId', () => {
       let cart = createCart('test-id', 900_000);
-      cart = mergeItem(cart, 'SKU-001', 2);
+      cart = mergeItem(cart, 'PLAN-BASIC', 2);
       const itemId = cart.items[0].itemId;
 
       const updated = removeItem(cart, itemId);
 
       expect(updated.items).toHaveLength(0);
-      expect(updated.totals.total).toBe(0);
+      expect(updated.totals.monthly.total.amount).toBe(0);
     });
 
     it('keeps other items when removing one', () => {
       let cart = createCart('test-id', 900_000);
-      cart = mergeItem(cart, 'SKU-001', 2);
-      cart = mergeItem(cart, 'SKU-002', 3);
+      cart = mergeItem(cart, 'PLAN-BASIC', 2);
+      cart = mergeItem(cart, 'ADDON-ROAM', 3);
       const firstItemId = cart.items[0].itemId;
 
       const updated = removeItem(cart, firstItemId);
 
       expect(updated.items).toHaveLength(1);
-      expect(updated.items[0].sku).toBe('SKU-002');
+      expect(updated.items[0].sku).toBe('ADDON-ROAM');
+    });
+  });
+
+  describe('saved for later', () => {
+    it('moves an item to the saved list, keeping its itemId, and out of the totals', () => {
+      let cart = createCart('test-id', 900_000);
+      cart = mergeItem(cart, 'PLAN-BASIC', 1);
+      cart = mergeItem(cart, 'ADDON-ROAM', 2);
+      const itemId = cart.items[1].itemId;
+
+      const updated = saveForLater(cart, itemId);
+
+      expect(updated.items.map((i) => i.sku)).toEqual(['PLAN-BASIC']);
+      expect(updated.savedItems).toEqual([
+        { itemId, sku: 'ADDON-ROAM', quantity: 2, unitPrice: cad(500), available: true },
+      ]);
+      expect(updated.totals.monthly.subtotal.amount).toBe(1500);
+    });
+
+    it('combines quantities with an identical saved item', () => {
+      let cart = createCart('test-id', 900_000);
+      cart = mergeItem(cart, 'ADDON-ROAM', 1);
+      const savedId = cart.items[0].itemId;
+      cart = saveForLater(cart, savedId);
+      cart = mergeItem(cart, 'ADDON-ROAM', 2);
+
+      const updated = saveForLater(cart, cart.items[0].itemId);
+
+      expect(updated.items).toHaveLength(0);
+      expect(updated.savedItems).toHaveLength(1);
+      expect(updated.savedItems[0]).toMatchObject({ itemId: savedId, quantity: 3 });
+    });
+
+    it('moves a saved item back into the cart, keeping its itemId', () => {
+      let cart = createCart('test-id', 900_000);
+      cart = mergeItem(cart, 'ADDON-ROAM', 2);
+      const itemId = cart.items[0].itemId;
+      cart = saveForLater(cart, itemId);
+
+      const updated = moveToCart(cart, itemId);
+
+      expect(updated.items).toEqual([{ itemId, sku: 'ADDON-ROAM', quantity: 2 }]);
+      expect(updated.savedItems).toHaveLength(0);
+      expect(updated.totals.monthly.subtotal.amount).toBe(1000);
+    });
+
+    it('combines quantities with an identical item already in the cart', () => {
+      let cart = createCart('test-id', 900_000);
+      cart = mergeItem(cart, 'ADDON-ROAM', 2);
+      const savedId = cart.items[0].itemId;
+      cart = saveForLater(cart, savedId);
+      cart = mergeItem(cart, 'ADDON-ROAM', 1);
+      const activeId = cart.items[0].itemId;
+
+      const updated = moveToCart(cart, savedId);
+
+      expect(updated.items).toEqual([{ itemId: activeId, sku: 'ADDON-ROAM', quantity: 3 }]);
+      expect(updated.savedItems).toHaveLength(0);
+    });
+
+    it('removes a saved item without touching the totals', () => {
+      let cart = createCart('test-id', 900_000);
+      cart = mergeItem(cart, 'PLAN-BASIC', 1);
+      cart = mergeItem(cart, 'ADDON-ROAM', 1);
+      cart = saveForLater(cart, cart.items[1].itemId);
+
+      const updated = removeSavedItem(cart, cart.savedItems[0].itemId);
+
+      expect(updated.savedItems).toHaveLength(0);
+      expect(updated.totals).toEqual(cart.totals);
+    });
+
+    it('reports saved items that are inactive or not priced in the cart currency as unavailable', () => {
+      const cart = {
+        ...createCart('test-id', 900_000, 'USD'),
+        savedItems: [
+          { itemId: 'a', sku: 'PLAN-BASIC', quantity: 1, available: false },
+          { itemId: 'b', sku: 'ADDON-DATA', quantity: 1, available: true },
+          { itemId: 'c', sku: 'PLAN-4G-LEGACY', quantity: 1, available: true },
+        ],
+      };
+
+      const refreshed = refreshSavedItems(cart);
+
+      expect(refreshed.savedItems).toEqual([
+        { itemId: 'a', sku: 'PLAN-BASIC', quantity: 1, unitPrice: { amount: 1100, currency: 'USD' }, available: true },
+        { itemId: 'b', sku: 'ADDON-DATA', quantity: 1, available: false },
+        { itemId: 'c', sku: 'PLAN-4G-LEGACY', quantity: 1, available: false },
+      ]);
+    });
+
+    it('keeps saved items when their line is removed, detached from it', () => {
+      let cart = addLine(createCart('test-id', 900_000), { label: 'Line 1', portIn: false });
+      const lineId = cart.lines[0].lineId;
+      cart = mergeItem(cart, 'ADDON-ROAM', 1, lineId);
+      cart = saveForLater(cart, cart.items[0].itemId);
+
+      const updated = removeLine(cart, lineId);
+
+      expect(updated.savedItems).toHaveLength(1);
+      expect(updated.savedItems[0].lineId).toBeUndefined();
+    });
+  });
+
+  describe('setItemQuantity', () => {
+    it('sets an absolute quantity and keeps itemId', () => {
+      let cart = createCart('test-id', 900_000);
+      cart = mergeItem(cart, 'PLAN-BASIC', 3);
+      const itemId = cart.items[0].itemId;
+
+      const updated = setItemQuantity(cart, itemId, 2);
+
+      expect(updated.items).toEqual([{ itemId, sku: 'PLAN-BASIC', quantity: 2 }]);
+      expect(updated.totals.monthly.subtotal.amount).toBe(3000);
+    });
+
+    it('removes the item when quantity is 0', () => {
+      let cart = createCart('test-id', 900_000);
+      cart = mergeItem(cart, 'PLAN-BASIC', 3);
+
+      const updated = setItemQuantity(cart, cart.items[0].itemId, 0);
+
+      expect(updated.items).toHaveLength(0);
+      expect(updated.totals.monthly.total.amount).toBe(0);
+    });
+  });
+
+  describe('applyCoupon / removeCoupon', () => {
+    it('applies a coupon once and recomputes totals', () => {
+      let cart = mergeItem(createCart('test-id', 900_000), 'PLAN-BASIC', 2);
+      cart = applyCoupon(cart, 'WELCOME10');
+      cart = applyCoupon(cart, 'WELCOME10');
+
+      expect(cart.coupons).toEqual(['WELCOME10']);
+      expect(cart.totals.monthly.discount.amount).toBe(300);
+    });
+
+    it('keeps coupon discounts when items change', () => {
+      let cart = applyCoupon(createCart('test-id', 900_000), 'WELCOME10');
+      cart = mergeItem(cart, 'PLAN-BASIC', 2);
+
+      expect(cart.totals.monthly.discount.amount).toBe(300);
+    });
+
+    it('removes a coupon', () => {
+      let cart = mergeItem(createCart('test-id', 900_000), 'PLAN-BASIC', 2);
+      cart = removeCoupon(applyCoupon(cart, 'WELCOME10'), 'WELCOME10');
+
+      expect(cart.coupons).toEqual([]);
+      expect(cart.totals.monthly.discount.amount).toBe(0);
+    });
+  });
+
+  describe('lines', () => {
+    const line = { label: 'Mom', msisdn: '+14165550100', portIn: false };
+
+    it('adds a line with a generated lineId', () => {
+      const cart = addLine(createCart('test-id', 900_000), line);
+
+      expect(cart.lines).toEqual([{ lineId: expect.any(String), ...line }]);
+      expect(cart.totals.lines).toEqual([
+        { lineId: cart.lines[0].lineId, dueToday: cad(0), monthly: cad(0) },
+      ]);
+    });
+
+    it('keeps the same SKU on different lines apart', () => {
+      let cart = addLine(addLine(createCart('test-id', 900_000), line), line);
+      const [first, second] = cart.lines;
+      cart = mergeItem(cart, 'PLAN-BASIC', 1, first.lineId);
+      cart = mergeItem(cart, 'PLAN-BASIC', 1, second.lineId);
+      cart = mergeItem(cart, 'ADDON-ROAM', 1, first.lineId);
+
+      expect(cart.items).toHaveLength(3);
+      expect(cart.totals.lines).toEqual([
+        { lineId: first.lineId, dueToday: cad(0), monthly: cad(2000) },
+        { lineId: second.lineId, dueToday: cad(0), monthly: cad(1500) },
+      ]);
+    });
+
+    it('applies the multi-line discount to plans on 2+ lines', () => {
+      let cart = addLine(addLine(createCart('test-id', 900_000), line), line);
+      cart = mergeItem(cart, 'PLAN-BASIC', 1, cart.lines[0].lineId);
+      expect(cart.totals.monthly.discount.amount).toBe(0);
+
+      cart = mergeItem(cart, 'PLAN-BASIC', 1, cart.lines[1].lineId);
+
+      expect(cart.totals.discounts[0].promotionId).toBe('MULTI-LINE-10');
+      expect(cart.totals.monthly.discount.amount).toBe(300); // 10% of 3000
+      expect(cart.totals.monthly.total.amount).toBe(3051);
+    });
+
+    it('renames a line', () => {
+      const cart = addLine(createCart('test-id', 900_000), line);
+      const updated = updateLine(cart, cart.lines[0].lineId, { label: 'Dad' });
+
+      expect(updated.lines[0].label).toBe('Dad');
+      expect(updated.lines[0].msisdn).toBe(line.msisdn);
+    });
+
+    it('removes a line with its items', () => {
+      let cart = addLine(createCart('test-id', 900_000), line);
+      cart = mergeItem(cart, 'PLAN-BASIC', 1, cart.lines[0].lineId);
+      cart = mergeItem(cart, 'ACC-CASE', 1);
+
+      const updated = removeLine(cart, cart.lines[0].lineId);
+
+      expect(updated.lines).toEqual([]);
+      expect(updated.items.map((item) => item.sku)).toEqual(['ACC-CASE']);
+      expect(updated.totals.dueToday.subtotal.amount).toBe(3000);
+      expect(updated.totals.monthly.subtotal.amount).toBe(0);
     });
   });
 
   describe('updateCustomer', () => {
+    it('recomputes tax for the service address', () => {
+      let cart = mergeItem(createCart('test-id', 900_000), 'PLAN-BASIC', 2);
+      cart = updateCustomer(cart, {
+        serviceAddress: { country: 'CA', province: 'AB' },
+      });
+
+      expect(cart.totals.monthly.taxes).toEqual([
+        { name: 'GST', rate: 0.05, amount: cad(150) },
+      ]);
+    });
+
     it('adds customer info to cart', () => {
       const cart = createCart('test-id', 900_000);
       const updated = updateCustomer(cart, {
@@ -1,18 +1,28 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SalesforceCartClient } from '../src/clients/salesforceCartClient.js';
 import { CartService } from '../src/services/cart.service.js';
+import { KeyRing } from '../src/lib/keyRing.js';
 import { createCartRoutes } from '../src/routes/cart.routes.js';
+import type {
+  Cart,
+  CartResponse,
+  CartValidation,
+  MergeResponse,
+  Order,
+  RehydrationResponse,
+} from '../src/models/types.js';
+import type { ErrorResponse } from '../src/lib/errors.js';
 
 describe('Cart Routes', () => {
   let client: SalesforceCartClient;
   let service: CartService;
   let app: ReturnType<typeof createCartRoutes>;
-  const SECRET = 'test-secret-min-32-chars-long-key';
+  const KEYS = new KeyRing({ test: 'test-secret-min-32-chars-long-key' }, 'test');
 
   beforeEach(() => {
     vi.useFakeTimers();
     client = new SalesforceCartClient(900_000, 60_000, 100, 50);
-    service = new CartService(client, 900_000, SECRET, 3600_000);
+    service = new CartService(client, 900_000, KEYS, 3600_000);
     app = createCartRoutes(service);
   });
 
@@ -32,6 +42,49 @@ describe('Cart Routes', () => {
       expect(body.cart).toBeDefined();
       expect(body.rehydrationToken).toBeDefined();
     });
+
+    it('creates a cart in the requested currency', async () => {
+      const res = await app.fetch(
+        new Request('http://localhost/', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ currency: 'USD' }),
+        })
+      );
+
+      expect(res.status).toBe(201);
+      const body = (await res.json()) as CartResponse;
+      expect(body.cart.currency).toBe('USD');
+    });
+
+    it('returns 400 for unsupported currency', async () => {
+      const res = await app.fetch(
+        new Request('http://localhost/', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ currency: 'EUR' }),
+        })
+      );
+
+      expect(res.status).toBe(400);
+    });
+
+    it('returns 400 for a body that is not valid JSON', async () => {
+      const res = await app.fetch(
+        new Request('http://localhost/', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: '{"currency":',
+        })
+      );
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as ErrorResponse;
+      expect(body.error).toEqual({
+        code: 'VALIDATION_ERROR',
+        message: 'Request body must be valid JSON',
+      });
+    });
   });
 
   describe('GET /cart/:id', () => {
@@ -71,7 +124,7 @@ describe('Cart Routes', () => {
       const req = new Request(`http://localhost/${cart.id}/items`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sku: 'SKU-001', quantity: 2 }),
+        body: JSON.stringify({ sku: 'PLAN-BASIC', quantity: 2 }),
       });
       const res = await app.fetch(req);
 
@@ -81,6 +134,28 @@ describe('Cart Routes', () => {
       expect(body.rehydrationToken).toBeDefined();
     });
 
+    it('adds a financed device', async () => {
+      const createRes = await app.fetch(new Request('http://localhost/', { method: 'POST' }));
+      const { cart } = (await createRes.json()) as CartResponse;
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/items`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            sku: 'DEVICE-PHONE-X',
+            quantity: 1,
+            payment: { type: 'installments', months: 24, downPayment: 9900 },
+          }),
+        })
+      );
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as CartResponse;
+      expect(body.cart.totals.installments[0].schedule).toHaveLength(24);
+      expect(body.cart.totals.monthly.subtotal.amount).toBe(3750);
+    });
+
     it('returns 400 for invalid request', async () => {
       const createReq = new Request('http://localhost/', { method: 'POST' });
       const createRes = await app.fetch(createReq);
@@ -89,12 +164,161 @@ describe('Cart Routes', () => {
       const req = new Request(`http://localhost/${cart.id}/items`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sku: 'SKU-001', quantity: 0 }),
+        body: JSON.stringify({ sku: 'PLAN-BASIC', quantity: 0 }),
       });
       const res = await app.fetch(req);
 
       expect(res.status).toBe(400);
     });
+
+    it('returns field-level details for every invalid field', async () => {
+      const createRes = await app.fetch(new Request('http://localhost/', { method: 'POST' }));
+      const { cart } = (await createRes.json()) as CartResponse;
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/items`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sku: 42, quantity: -1 }),
+        })
+      );
+
+      expect(res.status).toBe(400);
+      const { error } = (await res.json()) as ErrorResponse;
+      expect(error.code).toBe('VALIDATION_ERROR');
+      expect(error.details).toEqual([
+        { path: '/sku', rule: 'type', message: 'sku must be a string' },
+        { path: '/quantity', rule: 'range', message: 'Quantity must be an integer >= 1' },
+      ]);
+    });
+
+    it('returns 400 UNKNOWN_SKU for unknown sku', async () => {
+      const createRes = await app.fetch(
+        new Request('http://localhost/', { method: 'POST' })
+      );
+      const { cart } = (await createRes.json()) as CartResponse;
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/items`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sku: 'PLAN-5G-PLSU', quantity: 1 }),
+        })
+      );
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as ErrorResponse;
+      expect(body.error.code).toBe('UNKNOWN_SKU');
+    });
+  });
+
+  describe('PATCH /cart/:id/items/:itemId', () => {
+    it('updates item quantity', async () => {
+      const createRes = await app.fetch(
+        new Request('http://localhost/', { method: 'POST' })
+      );
+      const { cart } = (await createRes.json()) as CartResponse;
+
+      const addRes = await app.fetch(
+        new Request(`http://localhost/${cart.id}/items`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sku: 'PLAN-BASIC', quantity: 3 }),
+        })
+      );
+      const { cart: cartWithItem } = (await addRes.json()) as CartResponse;
+      const itemId = cartWithItem.items[0].itemId;
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/items/${itemId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ quantity: 2 }),
+        })
+      );
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as CartResponse;
+      expect(body.cart.items[0].itemId).toBe(itemId);
+      expect(body.cart.items[0].quantity).toBe(2);
+      expect(body.rehydrationToken).toBeDefined();
+    });
+
+    it('returns 400 for negative quantity', async () => {
+      const createRes = await app.fetch(
+        new Request('http://localhost/', { method: 'POST' })
+      );
+      const { cart } = (await createRes.json()) as CartResponse;
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/items/any`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ quantity: -1 }),
+        })
+      );
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('ETag / If-Match', () => {
+    it('returns the cart version as an ETag', async () => {
+      const createRes = await app.fetch(
+        new Request('http://localhost/', { method: 'POST' })
+      );
+      const { cart } = (await createRes.json()) as CartResponse;
+      expect(createRes.headers.get('ETag')).toBe('"1"');
+
+      const res = await app.fetch(new Request(`http://localhost/${cart.id}`));
+      expect(res.headers.get('ETag')).toBe('"1"');
+    });
+
+    it('applies mutation when If-Match matches', async () => {
+      const createRes = await app.fetch(
+        new Request('http://localhost/', { method: 'POST' })
+      );
+      const { cart } = (await createRes.json()) as CartResponse;
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/items`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'If-Match': '"1"' },
+          body: JSON.stringify({ sku: 'PLAN-BASIC', quantity: 1 }),
+        })
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('ETag')).toBe('"2"');
+    });
+
+    it('returns 412 when If-Match is stale', async () => {
+      const createRes = await app.fetch(
+        new Request('http://localhost/', { method: 'POST' })
+      );
+      const { cart } = (await createRes.json()) as CartResponse;
+
+      // Another tab edits the cart first
+      await app.fetch(
+        new Request(`http://localhost/${cart.id}/customer`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ firstName: 'Ada' }),
+        })
+      );
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/items`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'If-Match': '"1"' },
+          body: JSON.stringify({ sku: 'PLAN-BASIC', quantity: 1 }),
+        })
+      );
+
+      expect(res.status).toBe(412);
+      const body = (await res.json()) as ErrorResponse;
+      expect(body.error.code).toBe('PRECONDITION_FAILED');
+    });
   });
 
   describe('DELETE /cart/:id/items/:itemId', () => {
@@ -107,7 +331,7 @@ describe('Cart Routes', () => {
       const addReq = new Request(`http://localhost/${cart.id}/items`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sku: 'SKU-001', quantity: 2 }),
+        body: JSON.stringify({ sku: 'PLAN-BASIC', quantity: 2 }),
       });
       const addRes = await app.fetch(addReq);
       const { cart: cartWithItem } = await addRes.json();
@@ -126,6 +350,130 @@ describe('Cart Routes', () => {
     });
   });
 
+  describe('saved for later', () => {
+    it('moves an item to the saved list and back', async () => {
+      const createRes = await app.fetch(new Request('http://localhost/', { method: 'POST' }));
+      const { cart } = (await createRes.json()) as CartResponse;
+      const addRes = await app.fetch(
+        new Request(`http://localhost/${cart.id}/items`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sku: 'ACC-CASE', quantity: 1 }),
+        })
+      );
+      const itemId = ((await addRes.json()) as CartResponse).cart.items[0].itemId;
+
+      const saveRes = await app.fetch(
+        new Request(`http://localhost/${cart.id}/items/${itemId}/save-for-later`, {
+          method: 'POST',
+        })
+      );
+      expect(saveRes.status).toBe(200);
+      expect(saveRes.headers.get('ETag')).toBeTruthy();
+      const saved = (await saveRes.json()) as CartResponse;
+      expect(saved.cart.items).toHaveLength(0);
+      expect(saved.cart.savedItems[0]).toMatchObject({ itemId, available: true });
+
+      const moveRes = await app.fetch(
+        new Request(`http://localhost/${cart.id}/saved/${itemId}/move-to-cart`, {
+          method: 'POST',
+        })
+      );
+      expect(moveRes.status).toBe(200);
+      const moved = (await moveRes.json()) as CartResponse;
+      expect(moved.cart.items[0].itemId).toBe(itemId);
+      expect(moved.cart.savedItems).toHaveLength(0);
+    });
+
+    it('returns 404 for an unknown saved item', async () => {
+      const createRes = await app.fetch(new Request('http://localhost/', { method: 'POST' }));
+      const { cart } = (await createRes.json()) as CartResponse;
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/saved/missing`, { method: 'DELETE' })
+      );
+
+      expect(res.status).toBe(404);
+      expect(((await res.json()) as ErrorResponse).error.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('lines', () => {
+    const createCart = async () => {
+      const res = await app.fetch(new Request('http://localhost/', { method: 'POST' }));
+      return ((await res.json()) as CartResponse).cart;
+    };
+    const addLine = (cartId: string, body: unknown) =>
+      app.fetch(
+        new Request(`http://localhost/${cartId}/lines`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        })
+      );
+
+    it('adds a line and assigns items to it', async () => {
+      const cart = await createCart();
+
+      const lineRes = await addLine(cart.id, { label: 'Mom', msisdn: '+14165550100' });
+      expect(lineRes.status).toBe(200);
+      const { lineId } = ((await lineRes.json()) as CartResponse).cart.lines[0];
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/items`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sku: 'PLAN-BASIC', quantity: 1, lineId }),
+        })
+      );
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as CartResponse;
+      expect(body.cart.items[0].lineId).toBe(lineId);
+      expect(body.cart.totals.lines[0].monthly.amount).toBe(1500);
+    });
+
+    it('returns 400 for a line without a number', async () => {
+      const cart = await createCart();
+
+      const res = await addLine(cart.id, { label: 'Mom' });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('updates and removes a line', async () => {
+      const cart = await createCart();
+      const lineRes = await addLine(cart.id, { label: 'Mom', portIn: true });
+      const { lineId } = ((await lineRes.json()) as CartResponse).cart.lines[0];
+
+      const patchRes = await app.fetch(
+        new Request(`http://localhost/${cart.id}/lines/${lineId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ label: 'Dad' }),
+        })
+      );
+      expect(patchRes.status).toBe(200);
+      expect(((await patchRes.json()) as CartResponse).cart.lines[0].label).toBe('Dad');
+
+      const deleteRes = await app.fetch(
+        new Request(`http://localhost/${cart.id}/lines/${lineId}`, { method: 'DELETE' })
+      );
+      expect(deleteRes.status).toBe(200);
+      expect(((await deleteRes.json()) as CartResponse).cart.lines).toEqual([]);
+    });
+
+    it('returns 404 for an unknown line', async () => {
+      const cart = await createCart();
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/lines/missing`, { method: 'DELETE' })
+      );
+
+      expect(res.status).toBe(404);
+    });
+  });
+
   describe('PATCH /cart/:id/customer', () => {
     it('updates customer information', async () => {
       const createReq = new Request('http://localhost/', { method: 'POST' });
@@ -161,6 +509,119 @@ describe('Cart Routes', () => {
 
       expect(res.status).toBe(400);
     });
+
+    it('stores the full profile and returns field-level details for invalid fields', async () => {
+      const createRes = await app.fetch(new Request('http://localhost/', { method: 'POST' }));
+      const { cart } = (await createRes.json()) as CartResponse;
+      const patch = (body: unknown) =>
+        app.fetch(
+          new Request(`http://localhost/${cart.id}/customer`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+          })
+        );
+
+      const ok = await patch({
+        phone: '+14165550100',
+        dateOfBirth: '1990-04-01',
+        serviceAddress: { country: 'CA', province: 'ON', postalCode: 'M5V 2T6' },
+        billingAddress: { country: 'CA', province: 'BC', postalCode: 'v6b 1a1' },
+      });
+      expect(ok.status).toBe(200);
+      const { cart: updated } = (await ok.json()) as CartResponse;
+      expect(updated.customer?.billingAddress?.postalCode).toBe('V6B 1A1');
+
+      const bad = await patch({ phone: '4165550100', dateOfBirth: '1990-13-01' });
+      expect(bad.status).toBe(400);
+      const { error } = (await bad.json()) as ErrorResponse;
+      expect(error.code).toBe('VALIDATION_ERROR');
+      expect(error.details?.map((d) => d.path)).toEqual(['/phone', '/dateOfBirth']);
+    });
+  });
+
+  describe('POST /cart/:id/coupons', () => {
+    it('applies and removes a coupon', async () => {
+      const createRes = await app.fetch(
+        new Request('http://localhost/', { method: 'POST' })
+      );
+      const { cart } = (await createRes.json()) as CartResponse;
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/coupons`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ code: 'WELCOME10' }),
+        })
+      );
+
+      expect(res.status).toBe(200);
+      expect(((await res.json()) as CartResponse).cart.coupons).toEqual(['WELCOME10']);
+
+      const deleteRes = await app.fetch(
+        new Request(`http://localhost/${cart.id}/coupons/WELCOME10`, {
+          method: 'DELETE',
+        })
+      );
+
+      expect(deleteRes.status).toBe(200);
+      expect(((await deleteRes.json()) as CartResponse).cart.coupons).toEqual([]);
+    });
+
+    it('returns 400 INVALID_COUPON for unknown codes', async () => {
+      const createRes = await app.fetch(
+        new Request('http://localhost/', { method: 'POST' })
+      );
+      const { cart } = (await createRes.json()) as CartResponse;
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/coupons`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ code: 'NOPE' }),
+        })
+      );
+
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as ErrorResponse).error.code).toBe('INVALID_COUPON');
+    });
+  });
+
+  describe('POST /cart/:id/merge', () => {
+    it('merges the source cart and reports what happened', async () => {
+      const { cart: target } = await service.createCart();
+      const { cart: source } = await service.createCart();
+      await service.addItem(source.id, 'ACC-CASE', 2);
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${target.id}/merge`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sourceCartId: source.id, strategy: 'max' }),
+        })
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('ETag')).toBe('"2"');
+      const body = (await res.json()) as MergeResponse;
+      expect(body.cart.items[0].quantity).toBe(2);
+      expect(body.report).toMatchObject({ strategy: 'max', dropped: [], capped: [] });
+      expect(body.rehydrationToken).toBeDefined();
+    });
+
+    it('returns 400 for an unknown strategy', async () => {
+      const { cart } = await service.createCart();
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/merge`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sourceCartId: 'other', strategy: 'min' }),
+        })
+      );
+
+      expect(res.status).toBe(400);
+    });
   });
 
   describe('POST /cart/rehydrate', () => {
@@ -174,7 +635,7 @@ describe('Cart Routes', () => {
         new Request(`http://localhost/${cart.id}/items`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ sku: 'SKU-001', quantity: 2 }),
+          body: JSON.stringify({ sku: 'PLAN-BASIC', quantity: 2 }),
         })
       );
 
@@ -182,7 +643,7 @@ describe('Cart Routes', () => {
         new Request(`http://localhost/${cart.id}/items`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ sku: 'SKU-002', quantity: 3 }),
+          body: JSON.stringify({ sku: 'ADDON-ROAM', quantity: 3 }),
         })
       );
 
@@ -197,9 +658,10 @@ describe('Cart Routes', () => {
       const res = await app.fetch(req);
 
       expect(res.status).toBe(201);
-      const body = await res.json();
+      const body = (await res.json()) as RehydrationResponse;
       expect(body.cart.items).toHaveLength(2);
       expect(body.cart.id).not.toBe(cart.id); // New cart
+      expect(body.warnings).toEqual([]);
     });
 
     it('returns 401 for invalid token', async () => {
@@ -213,5 +675,137 @@ describe('Cart Routes', () => {
       expect(res.status).toBe(401);
     });
   });
-});
 
+  describe('POST /cart/:id/checkout', () => {
+    it('returns the order and rejects later mutations', async () => {
+      const { cart } = await service.createCart();
+      await service.addItem(cart.id, 'PLAN-BASIC', 1);
+      await service.updateCustomerInfo(cart.id, { email: 'test@example.com' });
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/checkout`, { method: 'POST' })
+      );
+
+      expect(res.status).toBe(201);
+      const body = (await res.json()) as { cart: Cart; order: Order };
+      expect(body.order.id).toBeDefined();
+      expect(body.cart.status).toBe('CHECKED_OUT');
+
+      const addRes = await app.fetch(
+        new Request(`http://localhost/${cart.id}/items`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sku: 'ADDON-ROAM', quantity: 1 }),
+        })
+      );
+      expect(addRes.status).toBe(409);
+      const addBody = (await addRes.json()) as ErrorResponse;
+      expect(addBody.error.code).toBe('CART_CHECKED_OUT');
+    });
+
+    it('returns 422 for an empty cart', async () => {
+      const { cart } = await service.createCart();
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/checkout`, { method: 'POST' })
+      );
+
+      expect(res.status).toBe(422);
+      const body = (await res.json()) as ErrorResponse;
+      expect(body.error.code).toBe('CHECKOUT_INVALID');
+    });
+  });
+
+  describe('PATCH /cart/:id/status', () => {
+    it('updates the status exposed by GET', async () => {
+      const { cart } = await service.createCart();
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/status`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ status: 'LOCKED_FOR_CHECKOUT' }),
+        })
+      );
+      expect(res.status).toBe(200);
+
+      const getRes = await app.fetch(new Request(`http://localhost/${cart.id}`));
+      const body = (await getRes.json()) as CartResponse;
+      expect(body.cart.status).toBe('LOCKED_FOR_CHECKOUT');
+    });
+
+    it('returns 400 for statuses the server sets', async () => {
+      const { cart } = await service.createCart();
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/status`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ status: 'CHECKED_OUT' }),
+        })
+      );
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /cart/:id/validate', () => {
+    it('lists broken rules', async () => {
+      const { cart } = await service.createCart();
+      await service.addItem(cart.id, 'PLAN-BASIC', 1);
+
+      const res = await app.fetch(new Request(`http://localhost/${cart.id}/validate`));
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as CartValidation;
+      expect(body).toEqual({ valid: true, violations: [] });
+    });
+
+    it('returns 422 when an add breaks a rule', async () => {
+      const { cart } = await service.createCart();
+
+      const res = await app.fetch(
+        new Request(`http://localhost/${cart.id}/items`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sku: 'ADDON-ROAM', quantity: 1 }),
+        })
+      );
+
+      expect(res.status).toBe(422);
+      const body = (await res.json()) as ErrorResponse;
+      expect(body.error.code).toBe('INCOMPATIBLE_ITEMS');
+    });
+  });
+
+  describe('malformed JSON bodies', () => {
+    it.each([
+      ['POST', '/:id/items'],
+      ['PATCH', '/:id/items/item-1'],
+      ['POST', '/:id/lines'],
+      ['PATCH', '/:id/lines/line-1'],
+      ['PATCH', '/:id/customer'],
+      ['POST', '/:id/coupons'],
+      ['PATCH', '/:id/status'],
+      ['POST', '/:id/merge'],
+      ['POST', '/rehydrate'],
+    ])('returns 400 from %s %s', async (method, path) => {
+      const { cart } = await service.createCart();
+
+      const res = await app.fetch(
+        new Request(`http://localhost${path.replace(':id', cart.id)}`, {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          body: '{bad',
+        })
+      );
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as ErrorResponse;
+      expect(body.error).toEqual({
+        code: 'VALIDATION_ERROR',
+        message: 'Request body must be valid JSON',
+      });
+    });
+  });
+});
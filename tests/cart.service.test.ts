@@ -1,17 +1,34 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SalesforceCartClient } from '../src/clients/salesforceCartClient.js';
 import { CartService } from '../src/services/cart.service.js';
-import { NotFoundError, TokenError } from '../src/lib/errors.js';
+import { KeyRing } from '../src/lib/keyRing.js';
+import { createRehydrationToken, generateToken, verifyToken } from '../src/lib/rehydration.js';
+import { CouponRedemptionStore } from '../src/clients/couponRedemptionStore.js';
+import { InMemoryOrderStore } from '../src/clients/orderStore.js';
+import {
+  CartStateError,
+  CheckoutError,
+  CompatibilityError,
+  ForbiddenError,
+  InvalidTransitionError,
+  InvalidCouponError,
+  NotFoundError,
+  PreconditionFailedError,
+  PriceUnavailableError,
+  TokenError,
+  UnknownSkuError,
+  ValidationError,
+} from '../src/lib/errors.js';
 
 describe('CartService', () => {
   let client: SalesforceCartClient;
   let service: CartService;
-  const SECRET = 'test-secret-min-32-chars-long-key';
+  const KEYS = new KeyRing({ test: 'test-secret-min-32-chars-long-key' }, 'test');
 
   beforeEach(() => {
     vi.useFakeTimers();
     client = new SalesforceCartClient(900_000, 60_000, 100, 50);
-    service = new CartService(client, 900_000, SECRET, 3600_000);
+    service = new CartService(client, 900_000, KEYS, 3600_000);
   });
 
   afterEach(() => {
@@ -29,6 +46,13 @@ describe('CartService', () => {
       expect(result.rehydrationToken).toBeDefined();
       expect(client.size()).toBe(1);
     });
+
+    it('creates a cart in the requested currency', async () => {
+      const result = await service.createCart('USD');
+
+      expect(result.cart.currency).toBe('USD');
+      expect(result.cart.totals.monthly.total.currency).toBe('USD');
+    });
   });
 
   describe('getCart', () => {
@@ -57,43 +81,423 @@ describe('CartService', () => {
   describe('addItem', () => {
     it('adds item to cart and returns token', async () => {
       const { cart } = await service.createCart();
-      const result = await service.addItem(cart.id, 'SKU-001', 2);
+      const result = await service.addItem(cart.id, 'PLAN-BASIC', 2);
 
       expect(result.cart.items).toHaveLength(1);
-      expect(result.cart.items[0].sku).toBe('SKU-001');
+      expect(result.cart.items[0].sku).toBe('PLAN-BASIC');
       expect(result.cart.items[0].quantity).toBe(2);
       expect(result.rehydrationToken).toBeDefined();
     });
 
     it('merges items with same sku', async () => {
       const { cart } = await service.createCart();
-      await service.addItem(cart.id, 'SKU-001', 2);
-      const result = await service.addItem(cart.id, 'SKU-001', 3);
+      await service.addItem(cart.id, 'PLAN-BASIC', 2);
+      const result = await service.addItem(cart.id, 'PLAN-BASIC', 3);
 
       expect(result.cart.items).toHaveLength(1);
       expect(result.cart.items[0].quantity).toBe(5);
     });
 
+    it('increments cart version', async () => {
+      const { cart } = await service.createCart();
+      const result = await service.addItem(cart.id, 'PLAN-BASIC', 1);
+
+      expect(cart.version).toBe(1);
+      expect(result.cart.version).toBe(2);
+    });
+
+    it('accepts matching expected version', async () => {
+      const { cart } = await service.createCart();
+      const result = await service.addItem(cart.id, 'PLAN-BASIC', 1, {
+        expectedVersion: 1,
+      });
+
+      expect(result.cart.items).toHaveLength(1);
+    });
+
+    it('throws PreconditionFailedError for stale expected version', async () => {
+      const { cart } = await service.createCart();
+      await service.addItem(cart.id, 'PLAN-BASIC', 1);
+
+      await expect(
+        service.addItem(cart.id, 'ADDON-ROAM', 1, { expectedVersion: 1 })
+      ).rejects.toThrow(PreconditionFailedError);
+    });
+
+    it('rejects unknown SKUs', async () => {
+      const { cart } = await service.createCart();
+
+      await expect(service.addItem(cart.id, 'PLAN-5G-PLSU', 1)).rejects.toThrow(
+        UnknownSkuError
+      );
+    });
+
+    it('rejects inactive SKUs', async () => {
+      const { cart } = await service.createCart();
+
+      await expect(
+        service.addItem(cart.id, 'PLAN-4G-LEGACY', 1)
+      ).rejects.toThrow(UnknownSkuError);
+    });
+
+    it('rejects SKUs without a price in the cart currency', async () => {
+      const { cart } = await service.createCart('USD');
+
+      await expect(service.addItem(cart.id, 'ADDON-DATA', 1)).rejects.toThrow(
+        PriceUnavailableError
+      );
+      expect((await service.getCart(cart.id)).items).toEqual([]);
+    });
+
+    it('rejects items that break compatibility rules', async () => {
+      const { cart } = await service.createCart();
+      await service.addItem(cart.id, 'PLAN-BASIC', 1);
+
+      await expect(service.addItem(cart.id, 'PLAN-5G-PLUS', 1)).rejects.toThrow(
+        CompatibilityError
+      );
+      await expect(service.addItem(cart.id, 'ADDON-DATA', 1)).rejects.toThrow(
+        /only available with 5G Plus/
+      );
+      expect((await service.getCart(cart.id)).items).toHaveLength(1);
+    });
+
+    it('rejects add-ons without a plan', async () => {
+      const { cart } = await service.createCart();
+
+      await expect(service.addItem(cart.id, 'ADDON-ROAM', 1)).rejects.toThrow(
+        /require a plan/
+      );
+    });
+
+    it('finances devices', async () => {
+      const { cart } = await service.createCart();
+      const result = await service.addItem(cart.id, 'DEVICE-PHONE-X', 1, {
+        payment: { type: 'installments', months: 36, downPayment: 9900 },
+      });
+
+      expect(result.cart.items[0].payment?.months).toBe(36);
+      expect(result.cart.totals.dueToday.subtotal.amount).toBe(9900);
+      expect(result.cart.totals.monthly.subtotal.amount).toBe(2500);
+    });
+
+    it('rejects financing anything but a device', async () => {
+      const { cart } = await service.createCart();
+
+      await expect(
+        service.addItem(cart.id, 'ACC-CASE', 1, {
+          payment: { type: 'installments', months: 24, downPayment: 0 },
+        })
+      ).rejects.toThrow(/Only devices/);
+    });
+
+    it('rejects a down payment covering the whole price', async () => {
+      const { cart } = await service.createCart();
+
+      await expect(
+        service.addItem(cart.id, 'DEVICE-PHONE-X', 1, {
+          payment: { type: 'installments', months: 24, downPayment: 99900 },
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+
     it('recalculates totals', async () => {
       const { cart } = await service.createCart();
-      const result = await service.addItem(cart.id, 'SKU-001', 2);
+      const result = await service.addItem(cart.id, 'PLAN-BASIC', 2);
 
-      expect(result.cart.totals.subtotal).toBe(2000);
-      expect(result.cart.totals.tax).toBe(260);
-      expect(result.cart.totals.total).toBe(2260);
+      expect(result.cart.totals.monthly.subtotal.amount).toBe(3000);
+      expect(result.cart.totals.monthly.taxTotal.amount).toBe(390);
+      expect(result.cart.totals.monthly.total.amount).toBe(3390);
     });
   });
 
   describe('removeItem', () => {
     it('removes item from cart', async () => {
       const { cart } = await service.createCart();
-      const { cart: withItem } = await service.addItem(cart.id, 'SKU-001', 2);
+      const { cart: withItem } = await service.addItem(cart.id, 'PLAN-BASIC', 2);
       const itemId = withItem.items[0].itemId;
 
       const updated = await service.removeItem(cart.id, itemId);
 
       expect(updated.items).toHaveLength(0);
-      expect(updated.totals.total).toBe(0);
+      expect(updated.totals.monthly.total.amount).toBe(0);
+    });
+  });
+
+  describe('saved for later', () => {
+    it('saves an item for later and moves it back, keeping its itemId', async () => {
+      const { cart } = await service.createCart();
+      const { cart: withItem } = await service.addItem(cart.id, 'ACC-CASE', 2);
+      const itemId = withItem.items[0].itemId;
+
+      const saved = await service.saveForLater(cart.id, itemId);
+      expect(saved.items).toHaveLength(0);
+      expect(saved.totals.dueToday.total.amount).toBe(0);
+
+      const read = await service.getCart(cart.id);
+      expect(read.savedItems).toEqual([
+        {
+          itemId,
+          sku: 'ACC-CASE',
+          quantity: 2,
+          unitPrice: { amount: 3000, currency: 'CAD' },
+          available: true,
+        },
+      ]);
+
+      const moved = await service.moveToCart(cart.id, itemId);
+      expect(moved.items).toEqual([{ itemId, sku: 'ACC-CASE', quantity: 2 }]);
+      expect(moved.savedItems).toEqual([]);
+    });
+
+    it('throws NotFoundError for unknown items', async () => {
+      const { cart } = await service.createCart();
+
+      await expect(service.saveForLater(cart.id, 'missing')).rejects.toThrow(NotFoundError);
+      await expect(service.moveToCart(cart.id, 'missing')).rejects.toThrow(NotFoundError);
+      await expect(service.removeSavedItem(cart.id, 'missing')).rejects.toThrow(
+        NotFoundError
+      );
+    });
+
+    it('checks compatibility when moving an item back', async () => {
+      const { cart } = await service.createCart();
+      const withLine = await service.addLine(cart.id, { label: 'Mom', portIn: false });
+      const lineId = withLine.lines[0].lineId;
+      const { cart: withPlan } = await service.addItem(cart.id, 'PLAN-BASIC', 1, { lineId });
+      const planId = withPlan.items[0].itemId;
+      await service.saveForLater(cart.id, planId);
+      await service.addItem(cart.id, 'PLAN-5G-PLUS', 1, { lineId });
+
+      await expect(service.moveToCart(cart.id, planId)).rejects.toThrow(CompatibilityError);
+    });
+
+    it('removes a saved item', async () => {
+      const { cart } = await service.createCart();
+      const { cart: withItem } = await service.addItem(cart.id, 'ACC-CASE', 1);
+      const itemId = withItem.items[0].itemId;
+      await service.saveForLater(cart.id, itemId);
+
+      const updated = await service.removeSavedItem(cart.id, itemId);
+
+      expect(updated.savedItems).toEqual([]);
+    });
+  });
+
+  describe('updateItemQuantity', () => {
+    it('sets quantity and reissues token', async () => {
+      const { cart } = await service.createCart();
+      const { cart: withItem } = await service.addItem(cart.id, 'PLAN-BASIC', 3);
+      const itemId = withItem.items[0].itemId;
+
+      const result = await service.updateItemQuantity(cart.id, itemId, 2);
+
+      expect(result.cart.items[0].itemId).toBe(itemId);
+      expect(result.cart.items[0].quantity).toBe(2);
+      expect(result.cart.totals.monthly.subtotal.amount).toBe(3000);
+      expect(result.rehydrationToken).toBeDefined();
+    });
+
+    it('removes item when quantity is 0', async () => {
+      const { cart } = await service.createCart();
+      const { cart: withItem } = await service.addItem(cart.id, 'PLAN-BASIC', 3);
+
+      const result = await service.updateItemQuantity(
+        cart.id,
+        withItem.items[0].itemId,
+        0
+      );
+
+      expect(result.cart.items).toHaveLength(0);
+    });
+
+    it('throws NotFoundError for unknown item', async () => {
+      const { cart } = await service.createCart();
+
+      await expect(
+        service.updateItemQuantity(cart.id, 'missing', 1)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('applyCoupon', () => {
+    it('applies a coupon and discounts totals', async () => {
+      const { cart } = await service.createCart();
+      await service.addItem(cart.id, 'PLAN-BASIC', 2);
+
+      const updated = await service.applyCoupon(cart.id, 'welcome10');
+
+      expect(updated.coupons).toEqual(['WELCOME10']);
+      expect(updated.totals.monthly.discount.amount).toBe(300);
+    });
+
+    it('throws InvalidCouponError for unknown codes', async () => {
+      const { cart } = await service.createCart();
+
+      await expect(service.applyCoupon(cart.id, 'NOPE')).rejects.toThrow(
+        InvalidCouponError
+      );
+    });
+
+    it('throws InvalidCouponError outside the validity window', async () => {
+      vi.setSystemTime(new Date('2027-06-01T00:00:00Z'));
+      const { cart } = await service.createCart();
+
+      await expect(service.applyCoupon(cart.id, 'CASE10')).rejects.toThrow(
+        InvalidCouponError
+      );
+    });
+
+    it('enforces usage limits, counting only checked-out carts', async () => {
+      vi.setSystemTime(new Date('2026-06-01T00:00:00Z'));
+      const redemptions = new CouponRedemptionStore();
+      for (let i = 0; i < 499; i++) {
+        redemptions.tryRedeem('CASE10', 500);
+      }
+      service = new CartService(client, 900_000, KEYS, 3600_000, redemptions);
+      const couponCart = async () => {
+        const { cart } = await service.createCart();
+        await service.addItem(cart.id, 'ACC-CASE', 1);
+        await service.updateCustomerInfo(cart.id, { email: 'test@example.com' });
+        return service.applyCoupon(cart.id, 'CASE10');
+      };
+
+      const abandoned = await couponCart();
+      await service.updateStatus(abandoned.id, 'ABANDONED');
+      const first = await couponCart();
+      const second = await couponCart();
+      await service.checkout(first.id);
+
+      expect(redemptions.count('CASE10')).toBe(500);
+      await expect(service.checkout(second.id)).rejects.toThrow(
+        new CheckoutError('Coupon CASE10 has reached its usage limit')
+      );
+      await expect(couponCart()).rejects.toThrow(InvalidCouponError);
+    });
+  });
+
+  describe('removeCoupon', () => {
+    it('throws NotFoundError if coupon is not applied', async () => {
+      const { cart } = await service.createCart();
+
+      await expect(service.removeCoupon(cart.id, 'WELCOME10')).rejects.toThrow(
+        NotFoundError
+      );
+    });
+  });
+
+  describe('lines', () => {
+    const line = { label: 'Mom', msisdn: '+14165550100', portIn: false };
+
+    it('adds items to a line', async () => {
+      const { cart } = await service.createCart();
+      const withLine = await service.addLine(cart.id, line);
+      const lineId = withLine.lines[0].lineId;
+
+      const { cart: updated } = await service.addItem(cart.id, 'PLAN-BASIC', 1, {
+        lineId,
+      });
+
+      expect(updated.items[0].lineId).toBe(lineId);
+      expect(updated.totals.lines).toEqual([
+        {
+          lineId,
+          dueToday: { amount: 0, currency: 'CAD' },
+          monthly: { amount: 1500, currency: 'CAD' },
+        },
+      ]);
+    });
+
+    it('allows a single unit of a plan on a line', async () => {
+      const { cart } = await service.createCart();
+      const withLine = await service.addLine(cart.id, line);
+      const lineId = withLine.lines[0].lineId;
+
+      await expect(
+        service.addItem(cart.id, 'PLAN-5G-PLUS', 3, { lineId })
+      ).rejects.toThrow(CompatibilityError);
+
+      const { cart: withPlan } = await service.addItem(cart.id, 'PLAN-5G-PLUS', 1, { lineId });
+      await expect(
+        service.updateItemQuantity(cart.id, withPlan.items[0].itemId, 3)
+      ).rejects.toThrow(CompatibilityError);
+      expect((await service.validateCart(cart.id)).valid).toBe(true);
+    });
+
+    it('allows one plan per line', async () => {
+      const { cart } = await service.createCart();
+      await service.addLine(cart.id, line);
+      const withLines = await service.addLine(cart.id, { ...line, msisdn: '+14165550101' });
+      const [first, second] = withLines.lines;
+
+      await service.addItem(cart.id, 'PLAN-BASIC', 1, { lineId: first.lineId });
+      await service.addItem(cart.id, 'PLAN-5G-PLUS', 1, { lineId: second.lineId });
+
+      await expect(
+        service.addItem(cart.id, 'PLAN-5G-PLUS', 1, { lineId: first.lineId })
+      ).rejects.toThrow(CompatibilityError);
+    });
+
+    it('rejects a number already on another line', async () => {
+      const { cart } = await service.createCart();
+      await service.addLine(cart.id, line);
+      const withLines = await service.addLine(cart.id, { label: 'Dad', portIn: true });
+      const [first, second] = withLines.lines;
+
+      await expect(service.addLine(cart.id, line)).rejects.toThrow(ValidationError);
+      await expect(
+        service.updateLine(cart.id, second.lineId, { msisdn: line.msisdn })
+      ).rejects.toThrow(
+        expect.objectContaining({
+          details: [expect.objectContaining({ path: '/msisdn', rule: 'unique' })],
+        })
+      );
+      const unchanged = await service.updateLine(cart.id, first.lineId, { msisdn: line.msisdn });
+      expect(unchanged.lines[0].msisdn).toBe(line.msisdn);
+    });
+
+    it('rejects items for an unknown line', async () => {
+      const { cart } = await service.createCart();
+
+      await expect(
+        service.addItem(cart.id, 'PLAN-BASIC', 1, { lineId: 'missing' })
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('renames a line', async () => {
+      const { cart } = await service.createCart();
+      const withLine = await service.addLine(cart.id, line);
+
+      const updated = await service.updateLine(cart.id, withLine.lines[0].lineId, {
+        label: 'Dad',
+      });
+
+      expect(updated.lines[0].label).toBe('Dad');
+    });
+
+    it('rejects dropping the number from a line that is not porting in', async () => {
+      const { cart } = await service.createCart();
+      const withLine = await service.addLine(cart.id, {
+        label: 'Port',
+        portIn: true,
+      });
+
+      await expect(
+        service.updateLine(cart.id, withLine.lines[0].lineId, { portIn: false })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('removes a line and its items', async () => {
+      const { cart } = await service.createCart();
+      const withLine = await service.addLine(cart.id, line);
+      const lineId = withLine.lines[0].lineId;
+      await service.addItem(cart.id, 'PLAN-BASIC', 1, { lineId });
+
+      const updated = await service.removeLine(cart.id, lineId);
+
+      expect(updated.lines).toEqual([]);
+      expect(updated.items).toEqual([]);
+      await expect(service.removeLine(cart.id, lineId)).rejects.toThrow(NotFoundError);
     });
   });
 
@@ -110,16 +514,442 @@ describe('CartService', () => {
     });
   });
 
+  describe('validateCart', () => {
+    it('lists rules broken after a plan is removed', async () => {
+      const { cart } = await service.createCart();
+      const { cart: withPlan } = await service.addItem(cart.id, 'PLAN-BASIC', 1);
+      await service.addItem(cart.id, 'ADDON-ROAM', 1);
+
+      expect(await service.validateCart(cart.id)).toEqual({
+        valid: true,
+        violations: [],
+      });
+
+      await service.removeItem(cart.id, withPlan.items[0].itemId);
+      const result = await service.validateCart(cart.id);
+
+      expect(result.valid).toBe(false);
+      expect(result.violations.map((v) => v.ruleId)).toEqual(['ADDON-REQUIRES-PLAN']);
+    });
+  });
+
+  describe('updateStatus', () => {
+    it('locks a cart and rejects item changes while locked', async () => {
+      const { cart } = await service.createCart();
+
+      const locked = await service.updateStatus(cart.id, 'LOCKED_FOR_CHECKOUT');
+      expect(locked.status).toBe('LOCKED_FOR_CHECKOUT');
+
+      const error = await service
+        .addItem(cart.id, 'PLAN-BASIC', 1)
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(CartStateError);
+      expect((error as CartStateError).code).toBe('CART_LOCKED');
+    });
+
+    it('unlocks a locked cart', async () => {
+      const { cart } = await service.createCart();
+      await service.updateStatus(cart.id, 'LOCKED_FOR_CHECKOUT');
+
+      const unlocked = await service.updateStatus(cart.id, 'ACTIVE');
+      await service.addItem(cart.id, 'PLAN-BASIC', 1);
+
+      expect(unlocked.status).toBe('ACTIVE');
+    });
+
+    it('reactivates an abandoned cart', async () => {
+      const { cart } = await service.createCart();
+      await service.updateStatus(cart.id, 'ABANDONED');
+
+      await expect(service.addItem(cart.id, 'PLAN-BASIC', 1)).rejects.toThrow(
+        /ABANDONED/
+      );
+      expect((await service.updateStatus(cart.id, 'ACTIVE')).status).toBe('ACTIVE');
+    });
+
+    it('rejects transitions missing from the table', async () => {
+      const { cart } = await service.createCart();
+      await service.updateStatus(cart.id, 'ABANDONED');
+
+      await expect(
+        service.updateStatus(cart.id, 'LOCKED_FOR_CHECKOUT')
+      ).rejects.toThrow(InvalidTransitionError);
+    });
+
+    it('rejects status changes on expired carts', async () => {
+      client = new SalesforceCartClient(900_000, 60_000, 100, 50, 300_000);
+      service = new CartService(client, 900_000, KEYS, 3600_000);
+      const { cart } = await service.createCart();
+
+      vi.advanceTimersByTime(900_001);
+
+      expect((await service.getCart(cart.id)).status).toBe('EXPIRED');
+      await expect(service.updateStatus(cart.id, 'ACTIVE')).rejects.toThrow(
+        CartStateError
+      );
+    });
+  });
+
+  describe('checkout', () => {
+    let orders: InMemoryOrderStore;
+
+    beforeEach(() => {
+      orders = new InMemoryOrderStore();
+      service = new CartService(
+        client,
+        900_000,
+        KEYS,
+        3600_000,
+        new CouponRedemptionStore(),
+        orders
+      );
+    });
+
+    async function readyCart() {
+      const { cart } = await service.createCart();
+      await service.addItem(cart.id, 'PLAN-BASIC', 2);
+      await service.updateCustomerInfo(cart.id, { email: 'test@example.com' });
+      return cart;
+    }
+
+    it('freezes the cart into an order', async () => {
+      const cart = await readyCart();
+
+      const result = await service.checkout(cart.id);
+
+      expect(result.order.cartId).toBe(cart.id);
+      expect(result.order.lines).toEqual([
+        expect.objectContaining({
+          sku: 'PLAN-BASIC',
+          quantity: 2,
+          unitPrice: { amount: 1500, currency: 'CAD' },
+          lineTotal: { amount: 3000, currency: 'CAD' },
+        }),
+      ]);
+      expect(result.order.totals.monthly.total.amount).toBe(3390);
+      expect(result.order.customer.email).toBe('test@example.com');
+      expect(result.cart.status).toBe('CHECKED_OUT');
+      expect(result.cart.orderId).toBe(result.order.id);
+      expect(await orders.get(result.order.id)).toEqual(result.order);
+    });
+
+    it('rejects mutations after checkout', async () => {
+      const cart = await readyCart();
+      await service.checkout(cart.id);
+
+      await expect(service.addItem(cart.id, 'ADDON-ROAM', 1)).rejects.toThrow(
+        CartStateError
+      );
+      await expect(service.checkout(cart.id)).rejects.toThrow(CartStateError);
+      expect(orders.size()).toBe(1);
+    });
+
+    it('puts the cart back when the order cannot be stored', async () => {
+      const cart = await readyCart();
+      vi.spyOn(orders, 'create').mockRejectedValueOnce(new Error('store down'));
+
+      await expect(service.checkout(cart.id)).rejects.toThrow('store down');
+
+      const restored = await service.getCart(cart.id);
+      expect(restored.status).toBe('ACTIVE');
+      expect(restored.orderId).toBeUndefined();
+      const { order } = await service.checkout(cart.id);
+      expect(await orders.get(order.id)).not.toBeNull();
+    });
+
+    it('checks out a locked cart', async () => {
+      const cart = await readyCart();
+      await service.updateStatus(cart.id, 'LOCKED_FOR_CHECKOUT');
+
+      const result = await service.checkout(cart.id);
+
+      expect(result.cart.status).toBe('CHECKED_OUT');
+    });
+
+    it('rejects an abandoned cart', async () => {
+      const cart = await readyCart();
+      await service.updateStatus(cart.id, 'ABANDONED');
+
+      await expect(service.checkout(cart.id)).rejects.toThrow(CartStateError);
+    });
+
+    it('rejects a cart that breaks compatibility rules', async () => {
+      const cart = await readyCart();
+      await service.addItem(cart.id, 'ADDON-ROAM', 1);
+      const plan = (await service.getCart(cart.id)).items[0];
+      await service.removeItem(cart.id, plan.itemId);
+
+      await expect(service.checkout(cart.id)).rejects.toThrow(/require a plan/);
+    });
+
+    it('rejects an empty cart', async () => {
+      const { cart } = await service.createCart();
+      await service.updateCustomerInfo(cart.id, { email: 'test@example.com' });
+
+      await expect(service.checkout(cart.id)).rejects.toThrow(CheckoutError);
+    });
+
+    it('requires a customer email', async () => {
+      const { cart } = await service.createCart();
+      await service.addItem(cart.id, 'PLAN-BASIC', 1);
+
+      await expect(service.checkout(cart.id)).rejects.toThrow(/email/);
+      expect((await service.getCart(cart.id)).status).toBe('ACTIVE');
+    });
+
+    it('requires a customer old enough to finance a device', async () => {
+      vi.setSystemTime(new Date('2026-06-15T12:00:00Z'));
+      const { cart } = await service.createCart();
+      await service.addItem(cart.id, 'DEVICE-PHONE-X', 1, {
+        payment: { type: 'installments', months: 24, downPayment: 0 },
+      });
+      await service.updateCustomerInfo(cart.id, { email: 'test@example.com' });
+
+      await expect(service.checkout(cart.id)).rejects.toThrow(/date of birth/);
+
+      await service.updateCustomerInfo(cart.id, { dateOfBirth: '2008-06-16' });
+      await expect(service.checkout(cart.id)).rejects.toThrow(/at least 18/);
+
+      await service.updateCustomerInfo(cart.id, { dateOfBirth: '2008-06-15' });
+      const { order } = await service.checkout(cart.id);
+      expect(order.customer.dateOfBirth).toBe('2008-06-15');
+    });
+
+    it('throws PreconditionFailedError for stale expected version', async () => {
+      const cart = await readyCart();
+
+      await expect(
+        service.checkout(cart.id, { expectedVersion: 1 })
+      ).rejects.toThrow(PreconditionFailedError);
+      expect(orders.size()).toBe(0);
+    });
+  });
+
+  describe('ownership', () => {
+    it('claims an unowned cart on the first authenticated mutation', async () => {
+      const { cart } = await service.createCart();
+
+      const { cart: updated } = await service.addItem(cart.id, 'PLAN-BASIC', 1, {
+        customerId: 'alice',
+        expectedVersion: cart.version,
+      });
+
+      expect(updated.ownerId).toBe('alice');
+      await expect(
+        service.addItem(cart.id, 'ACC-CASE', 1, { customerId: 'bob' })
+      ).rejects.toThrow(ForbiddenError);
+      await expect(service.removeItem(cart.id, updated.items[0].itemId)).rejects.toThrow(
+        ForbiddenError
+      );
+    });
+
+    it('leaves carts past ACTIVE unclaimed', async () => {
+      const { cart } = await service.createCart();
+      await service.updateStatus(cart.id, 'ABANDONED');
+
+      const read = await service.getCart(cart.id, { customerId: 'alice' });
+
+      expect(read.ownerId).toBeUndefined();
+    });
+
+    it('gives rehydrated carts to the caller and guards replays', async () => {
+      const { cart } = await service.createCart();
+      const { rehydrationToken } = await service.addItem(cart.id, 'PLAN-BASIC', 1);
+
+      const { cart: restored } = await service.rehydrateCart(rehydrationToken, {
+        customerId: 'alice',
+      });
+
+      expect(restored.ownerId).toBe('alice');
+      await expect(
+        service.rehydrateCart(rehydrationToken, { customerId: 'bob' })
+      ).rejects.toThrow(ForbiddenError);
+    });
+
+    it('carries the owner onto the order', async () => {
+      const { cart } = await service.createCart('CAD', { customerId: 'alice' });
+      await service.addItem(cart.id, 'PLAN-BASIC', 1, { customerId: 'alice' });
+      await service.updateCustomerInfo(
+        cart.id,
+        { email: 'alice@example.com' },
+        { customerId: 'alice' }
+      );
+
+      const { order } = await service.checkout(cart.id, { customerId: 'alice' });
+
+      expect(order.ownerId).toBe('alice');
+    });
+  });
+
+  describe('mergeCarts', () => {
+    const line = { label: 'Mom', msisdn: '+14165550100', portIn: false };
+
+    const cartWith = async (items: Array<[string, number]>) => {
+      const { cart } = await service.createCart();
+      for (const [sku, quantity] of items) {
+        await service.addItem(cart.id, sku, quantity);
+      }
+      return cart.id;
+    };
+
+    it.each([
+      ['sum', 5],
+      ['keepTarget', 2],
+      ['keepSource', 3],
+      ['max', 3],
+    ] as const)('combines matching items with %s', async (strategy, expected) => {
+      const target = await cartWith([['ACC-CASE', 2]]);
+      const source = await cartWith([['ACC-CASE', 3]]);
+
+      const { cart, report } = await service.mergeCarts(target, source, strategy);
+
+      expect(cart.items).toHaveLength(1);
+      expect(cart.items[0].quantity).toBe(expected);
+      expect(report.merged).toEqual([
+        { itemId: cart.items[0].itemId, sku: 'ACC-CASE', quantity: expected },
+      ]);
+    });
+
+    it('adds source-only items and abandons the source cart', async () => {
+      const target = await cartWith([['PLAN-BASIC', 1]]);
+      const source = await cartWith([['ACC-CASE', 1]]);
+
+      const { cart } = await service.mergeCarts(target, source);
+
+      expect(cart.items.map((item) => item.sku)).toEqual(['PLAN-BASIC', 'ACC-CASE']);
+      expect((await service.getCart(source)).status).toBe('ABANDONED');
+    });
+
+    it('leaves both carts as they were when the second write fails', async () => {
+      const target = await cartWith([['ACC-CASE', 2]]);
+      const source = await cartWith([['ACC-CASE', 3]]);
+      const update = client.update.bind(client);
+      let writes = 0;
+      vi.spyOn(client, 'update').mockImplementation((cart) =>
+        ++writes === 2 ? Promise.reject(new Error('store down')) : update(cart)
+      );
+
+      await expect(service.mergeCarts(target, source)).rejects.toThrow('store down');
+      vi.mocked(client.update).mockRestore();
+
+      expect((await service.getCart(source)).status).toBe('ACTIVE');
+      expect((await service.getCart(source)).items[0].quantity).toBe(3);
+      expect((await service.getCart(target)).items[0].quantity).toBe(2);
+      const { cart } = await service.mergeCarts(target, source);
+      expect(cart.items[0].quantity).toBe(5);
+    });
+
+    it("keeps the target's plan unless the strategy is keepSource", async () => {
+      const target = await cartWith([['PLAN-BASIC', 1]]);
+      const source = await cartWith([['PLAN-5G-PLUS', 1], ['ADDON-DATA', 1]]);
+
+      const { cart, report } = await service.mergeCarts(target, source, 'sum');
+
+      expect(cart.items.map((item) => item.sku)).toEqual(['PLAN-BASIC']);
+      expect(report.dropped.map((item) => [item.sku, item.code])).toEqual([
+        ['PLAN-5G-PLUS', 'INCOMPATIBLE_ITEMS'],
+        ['ADDON-DATA', 'INCOMPATIBLE_ITEMS'],
+      ]);
+    });
+
+    it("lets keepSource replace the target's plan", async () => {
+      const target = await cartWith([['PLAN-BASIC', 1]]);
+      const source = await cartWith([['PLAN-5G-PLUS', 1], ['ADDON-DATA', 1]]);
+
+      const { cart, report } = await service.mergeCarts(target, source, 'keepSource');
+
+      expect(cart.items.map((item) => item.sku)).toEqual(['PLAN-5G-PLUS', 'ADDON-DATA']);
+      expect(report.dropped).toEqual([]);
+    });
+
+    it("won't replace a plan the target's add-ons depend on", async () => {
+      const target = await cartWith([['PLAN-5G-PLUS', 1], ['ADDON-DATA', 1]]);
+      const source = await cartWith([['PLAN-BASIC', 1]]);
+
+      const { cart, report } = await service.mergeCarts(target, source, 'keepSource');
+
+      expect(cart.items.map((item) => item.sku)).toEqual(['PLAN-5G-PLUS', 'ADDON-DATA']);
+      expect(report.dropped[0]).toMatchObject({ sku: 'PLAN-BASIC', code: 'INCOMPATIBLE_ITEMS' });
+    });
+
+    it('joins lines by MSISDN and caps a plan on a line at one', async () => {
+      const { cart: target } = await service.createCart();
+      const targetLine = (await service.addLine(target.id, line)).lines[0].lineId;
+      await service.addItem(target.id, 'PLAN-BASIC', 1, { lineId: targetLine });
+      const { cart: source } = await service.createCart();
+      const sourceLine = (await service.addLine(source.id, line)).lines[0].lineId;
+      await service.addItem(source.id, 'PLAN-BASIC', 1, { lineId: sourceLine });
+      await service.addLine(source.id, { label: 'Dad', portIn: true });
+
+      const { cart, report } = await service.mergeCarts(target.id, source.id, 'sum');
+
+      expect(cart.lines.map((l) => l.label)).toEqual(['Mom', 'Dad']);
+      expect(cart.items).toEqual([
+        expect.objectContaining({ sku: 'PLAN-BASIC', lineId: targetLine, quantity: 1 }),
+      ]);
+      expect(report.capped).toEqual([
+        expect.objectContaining({
+          sku: 'PLAN-BASIC',
+          lineId: targetLine,
+          requested: 2,
+          quantity: 1,
+          message: 'Only one plan per line',
+        }),
+      ]);
+    });
+
+    it('drops items with no price in the target currency', async () => {
+      const { cart: target } = await service.createCart('USD');
+      const source = await cartWith([['PLAN-5G-PLUS', 1], ['ADDON-DATA', 1]]);
+
+      const { cart, report } = await service.mergeCarts(target.id, source);
+
+      expect(cart.items.map((item) => item.sku)).toEqual(['PLAN-5G-PLUS']);
+      expect(report.dropped).toEqual([
+        expect.objectContaining({ sku: 'ADDON-DATA', code: 'PRICE_UNAVAILABLE' }),
+      ]);
+    });
+
+    it("moves coupons and fills gaps in the target's customer details", async () => {
+      const target = await cartWith([['PLAN-BASIC', 1]]);
+      await service.updateCustomerInfo(target, { email: 'a@example.com' });
+      const source = await cartWith([]);
+      await service.updateCustomerInfo(source, { email: 'b@example.com', firstName: 'Ada' });
+      await service.applyCoupon(source, 'WELCOME10');
+
+      const { cart } = await service.mergeCarts(target, source);
+
+      expect(cart.coupons).toEqual(['WELCOME10']);
+      expect(cart.customer).toEqual({ email: 'a@example.com', firstName: 'Ada' });
+      expect((await service.getCart(source)).coupons).toEqual([]);
+    });
+
+    it('rejects merging a cart into itself', async () => {
+      const target = await cartWith([]);
+
+      await expect(service.mergeCarts(target, target)).rejects.toThrow(ValidationError);
+    });
+
+    it("won't merge another customer's cart", async () => {
+      const { cart: target } = await service.createCart('CAD', { customerId: 'alice' });
+      const { cart: source } = await service.createCart('CAD', { customerId: 'bob' });
+
+      await expect(
+        service.mergeCarts(target.id, source.id, 'sum', { customerId: 'alice' })
+      ).rejects.toThrow(ForbiddenError);
+    });
+  });
+
   describe('rehydrateCart', () => {
     it('creates new cart from valid token', async () => {
       const { cart, rehydrationToken } = await service.createCart();
-      await service.addItem(cart.id, 'SKU-001', 2);
-      await service.addItem(cart.id, 'SKU-002', 3);
+      await service.addItem(cart.id, 'PLAN-BASIC', 2);
+      await service.addItem(cart.id, 'ADDON-ROAM', 3);
 
       // Get fresh token
       const { rehydrationToken: token } = await service.addItem(
         cart.id,
-        'SKU-002',
+        'ADDON-ROAM',
         0
       );
 
@@ -130,20 +960,226 @@ describe('CartService', () => {
       expect(result.rehydrationToken).toBeDefined();
     });
 
+    it('issues and accepts encrypted tokens', async () => {
+      service = new CartService(
+        client,
+        900_000,
+        KEYS,
+        3600_000,
+        undefined,
+        undefined,
+        'encrypted'
+      );
+      const { cart } = await service.createCart();
+      const { rehydrationToken } = await service.addItem(cart.id, 'PLAN-BASIC', 2);
+
+      expect(rehydrationToken.startsWith('v2.')).toBe(true);
+
+      const result = await service.rehydrateCart(rehydrationToken);
+      expect(result.cart.items[0].sku).toBe('PLAN-BASIC');
+    });
+
     it('replays items correctly', async () => {
       const { cart } = await service.createCart();
-      await service.addItem(cart.id, 'SKU-001', 2);
-      const { rehydrationToken } = await service.addItem(cart.id, 'SKU-002', 3);
+      await service.addItem(cart.id, 'PLAN-BASIC', 2);
+      const { rehydrationToken } = await service.addItem(cart.id, 'ADDON-ROAM', 3);
 
       const result = await service.rehydrateCart(rehydrationToken);
 
       expect(result.cart.items).toHaveLength(2);
-      expect(result.cart.totals.total).toBe(5650); // 5 items
+      expect(result.cart.totals.monthly.total.amount).toBe(5085); // 2 plans + 3 add-ons
+    });
+
+    it('restores currency, lines, customer, financing and coupons', async () => {
+      service = new CartService(
+        client,
+        900_000,
+        KEYS,
+        3600_000,
+        undefined,
+        undefined,
+        'encrypted'
+      );
+      const { cart } = await service.createCart('USD');
+      const withLine = await service.addLine(cart.id, {
+        label: 'Mom',
+        msisdn: '+14165550100',
+        portIn: false,
+      });
+      const lineId = withLine.lines[0].lineId;
+      await service.updateCustomerInfo(cart.id, { email: 'mom@example.com' });
+      await service.applyCoupon(cart.id, 'WELCOME10');
+      await service.addItem(cart.id, 'PLAN-BASIC', 1, { lineId });
+      const { rehydrationToken } = await service.addItem(cart.id, 'DEVICE-PHONE-X', 1, {
+        payment: { type: 'installments', months: 24, downPayment: 0 },
+      });
+
+      const { cart: restored, warnings } = await service.rehydrateCart(rehydrationToken);
+
+      expect(warnings).toEqual([]);
+      expect(restored.currency).toBe('USD');
+      expect(restored.customer?.email).toBe('mom@example.com');
+      expect(restored.lines).toHaveLength(1);
+      expect(restored.lines[0].lineId).not.toBe(lineId);
+      expect(restored.items[0]).toMatchObject({
+        sku: 'PLAN-BASIC',
+        lineId: restored.lines[0].lineId,
+      });
+      expect(restored.items[1].payment?.months).toBe(24);
+      expect(restored.coupons).toEqual(['WELCOME10']);
+    });
+
+    it('leaves customer details and line numbers out of signed tokens', async () => {
+      const { cart } = await service.createCart();
+      await service.addLine(cart.id, { label: 'Mom', msisdn: '+14165550100', portIn: false });
+      await service.updateCustomerInfo(cart.id, { email: 'mom@example.com' });
+      const { rehydrationToken } = await service.addItem(cart.id, 'ACC-CASE', 1);
+
+      const payload = verifyToken(rehydrationToken, KEYS, 3600_000);
+      const { cart: restored, warnings } = await service.rehydrateCart(rehydrationToken);
+
+      expect(payload.customer).toBeUndefined();
+      expect(payload.lines).toEqual([expect.objectContaining({ label: 'Mom', portIn: true })]);
+      expect(JSON.stringify(payload)).not.toContain('+14165550100');
+      expect(warnings).toEqual([]);
+      expect(restored.customer).toBeUndefined();
+      expect(restored.lines[0].msisdn).toBeUndefined();
+    });
+
+    it('drops what no longer validates and reports it', async () => {
+      vi.setSystemTime(new Date('2026-06-01T00:00:00Z'));
+      const token = createRehydrationToken(
+        {
+          currency: 'CAD',
+          customer: { email: 'not-an-email', firstName: 'Ada' },
+          items: [
+            { sku: 'PLAN-4G-LEGACY', quantity: 1 },
+            { sku: 'PLAN-BASIC', quantity: 1, lineId: 'gone' },
+            { sku: 'ACC-CASE', quantity: 1 },
+          ],
+          coupons: ['CASE10', 'NOPE'],
+        },
+        KEYS
+      );
+      vi.setSystemTime(new Date('2027-01-01T00:10:00Z'));
+      service = new CartService(client, 900_000, KEYS, 3600_000 * 24 * 365);
+
+      const { cart, warnings } = await service.rehydrateCart(token);
+
+      expect(cart.items.map((item) => item.sku)).toEqual(['ACC-CASE']);
+      expect(cart.customer).toEqual({ firstName: 'Ada' });
+      expect(cart.coupons).toEqual([]);
+      expect(warnings.map((w) => [w.path, w.code])).toEqual([
+        ['/customer/email', 'VALIDATION_ERROR'],
+        ['/items/0', 'UNKNOWN_SKU'],
+        ['/items/1', 'NOT_FOUND'],
+        ['/coupons/0', 'INVALID_COUPON'],
+        ['/coupons/1', 'INVALID_COUPON'],
+      ]);
+    });
+
+    it('falls back to the default currency when the token names an unsupported one', async () => {
+      const token = createRehydrationToken(
+        { currency: 'EUR', items: [{ sku: 'PLAN-BASIC', quantity: 1 }] },
+        KEYS
+      );
+
+      const { cart, warnings } = await service.rehydrateCart(token);
+
+      expect(cart.currency).toBe('CAD');
+      expect(cart.items).toHaveLength(1);
+      expect(warnings).toEqual([
+        { path: '/currency', code: 'VALIDATION_ERROR', message: 'Unsupported currency: EUR' },
+      ]);
+    });
+
+    it('accepts items-only tokens from before the schema version', async () => {
+      const token = generateToken(
+        { iat: Date.now(), items: [{ sku: 'PLAN-BASIC', quantity: 2 }] },
+        KEYS
+      );
+
+      const { cart, warnings } = await service.rehydrateCart(token);
+
+      expect(cart.items[0].quantity).toBe(2);
+      expect(warnings).toEqual([]);
+    });
+
+    it('returns the same cart when a token is replayed', async () => {
+      const { cart } = await service.createCart();
+      const { rehydrationToken } = await service.addItem(cart.id, 'PLAN-BASIC', 1);
+
+      const first = await service.rehydrateCart(rehydrationToken);
+      await service.addItem(first.cart.id, 'ADDON-ROAM', 1);
+      const replay = await service.rehydrateCart(rehydrationToken);
+
+      expect(replay.cart.id).toBe(first.cart.id);
+      expect(replay.cart.items).toHaveLength(2);
+      expect(client.size()).toBe(2);
+    });
+
+    it('rejects a replay once the cart it created is gone', async () => {
+      const { cart } = await service.createCart();
+      const { rehydrationToken } = await service.addItem(cart.id, 'PLAN-BASIC', 1);
+      await service.rehydrateCart(rehydrationToken);
+      client.clear();
+
+      await expect(service.rehydrateCart(rehydrationToken)).rejects.toThrow(
+        'Token has already been used'
+      );
+    });
+
+    it('lets a token be used again when its cart could not be created', async () => {
+      const { cart } = await service.createCart();
+      const { rehydrationToken } = await service.addItem(cart.id, 'PLAN-BASIC', 1);
+      vi.spyOn(client, 'create').mockRejectedValueOnce(new Error('store down'));
+
+      await expect(service.rehydrateCart(rehydrationToken)).rejects.toThrow('store down');
+      const { cart: restored } = await service.rehydrateCart(rehydrationToken);
+
+      expect(restored.items).toHaveLength(1);
+    });
+
+    it('creates a new cart every time from tokens without a jti', async () => {
+      const token = createRehydrationToken({ items: [{ sku: 'PLAN-BASIC', quantity: 1 }] }, KEYS);
+
+      const first = await service.rehydrateCart(token);
+      const second = await service.rehydrateCart(token);
+
+      expect(second.cart.id).not.toBe(first.cart.id);
+    });
+
+    it('rejects tokens issued for a cart before its tokens were revoked', async () => {
+      const { cart } = await service.createCart();
+      const { rehydrationToken: revoked } = await service.addItem(cart.id, 'PLAN-BASIC', 1);
+
+      vi.advanceTimersByTime(1);
+      const { revokedAt } = await service.revokeTokens(cart.id);
+      expect(revokedAt).toEqual(new Date());
+      vi.advanceTimersByTime(1);
+      const { rehydrationToken: fresh } = await service.addItem(cart.id, 'ADDON-ROAM', 1);
+
+      await expect(service.rehydrateCart(revoked)).rejects.toThrow('Token has been revoked');
+      expect((await service.rehydrateCart(fresh)).cart.items).toHaveLength(2);
+    });
+
+    it('accepts tokens issued right after a revocation', async () => {
+      const { cart } = await service.createCart();
+      const { rehydrationToken: revoked } = await service.addItem(cart.id, 'PLAN-BASIC', 1);
+
+      await service.revokeTokens(cart.id);
+      const { rehydrationToken: fresh } = await service.addItem(cart.id, 'ADDON-ROAM', 1);
+      await service.revokeTokens(cart.id);
+      const { rehydrationToken: latest } = await service.addItem(cart.id, 'ACC-CASE', 1);
+
+      await expect(service.rehydrateCart(revoked)).rejects.toThrow('Token has been revoked');
+      await expect(service.rehydrateCart(fresh)).rejects.toThrow('Token has been revoked');
+      expect((await service.rehydrateCart(latest)).cart.items).toHaveLength(3);
     });
 
     it('throws TokenError for expired token', async () => {
       const { cart } = await service.createCart();
-      const { rehydrationToken } = await service.addItem(cart.id, 'SKU-001', 2);
+      const { rehydrationToken } = await service.addItem(cart.id, 'PLAN-BASIC', 2);
 
       // Advance past token max age
       vi.advanceTimersByTime(3600_001);
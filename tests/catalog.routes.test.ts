@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Catalog } from '../src/config/catalog.js';
+import { CatalogService } from '../src/services/catalog.service.js';
+import { createCatalogRoutes } from '../src/routes/catalog.routes.js';
+import type { Product, ProductPage, ProductView } from '../src/models/types.js';
+import type { ErrorResponse } from '../src/lib/errors.js';
+
+describe('Catalog Routes', () => {
+  let app: ReturnType<typeof createCatalogRoutes>;
+
+  const product = (
+    sku: string,
+    type: Product['type'],
+    active = true,
+    prices: Record<string, number> = { CAD: 1000, USD: 800 }
+  ): Product => ({ sku, name: sku, type, chargeType: 'recurring', active, prices });
+
+  beforeEach(() => {
+    const catalog = new Catalog([
+      product('PLAN-A', 'plan'),
+      product('PLAN-B', 'plan'),
+      product('PLAN-OLD', 'plan', false),
+      product('ADDON-A', 'addon', true, { CAD: 1000 }),
+    ]);
+    app = createCatalogRoutes(new CatalogService(catalog));
+  });
+
+  describe('GET /catalog', () => {
+    it('lists active products with tax-inclusive pricing', async () => {
+      const res = await app.fetch(new Request('http://localhost/'));
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as ProductPage;
+      expect(body.total).toBe(3);
+      expect(body.products.map((p) => p.sku)).toEqual([
+        'PLAN-A',
+        'PLAN-B',
+        'ADDON-A',
+      ]);
+      expect(body.products[0].price).toEqual({ amount: 1000, currency: 'CAD' });
+      expect(body.products[0].taxTotal).toEqual({ amount: 130, currency: 'CAD' });
+      expect(body.products[0].priceWithTax).toEqual({ amount: 1130, currency: 'CAD' });
+    });
+
+    it('prices for the requested jurisdiction', async () => {
+      const res = await app.fetch(
+        new Request('http://localhost/?jurisdiction=CA-QC')
+      );
+
+      const body = (await res.json()) as ProductPage;
+      expect(body.products[0].taxes.map((t) => t.name)).toEqual([
+        'GST',
+        'QST',
+      ]);
+      expect(body.products[0].taxTotal.amount).toBe(150); // 50 + 99.75
+    });
+
+    it('returns 400 for unsupported jurisdiction', async () => {
+      const res = await app.fetch(
+        new Request('http://localhost/?jurisdiction=US-CA')
+      );
+
+      expect(res.status).toBe(400);
+    });
+
+    it('lists only products priced in the requested currency', async () => {
+      const res = await app.fetch(new Request('http://localhost/?currency=USD'));
+
+      const body = (await res.json()) as ProductPage;
+      expect(body.total).toBe(2);
+      expect(body.products[0].price).toEqual({ amount: 800, currency: 'USD' });
+    });
+
+    it('returns 400 for unsupported currency', async () => {
+      const res = await app.fetch(new Request('http://localhost/?currency=XYZ'));
+
+      expect(res.status).toBe(400);
+    });
+
+    it('filters by type', async () => {
+      const res = await app.fetch(new Request('http://localhost/?type=addon'));
+
+      const body = (await res.json()) as ProductPage;
+      expect(body.products).toHaveLength(1);
+      expect(body.products[0].sku).toBe('ADDON-A');
+    });
+
+    it('paginates', async () => {
+      const res = await app.fetch(
+        new Request('http://localhost/?page=2&pageSize=2')
+      );
+
+      const body = (await res.json()) as ProductPage;
+      expect(body.page).toBe(2);
+      expect(body.pageSize).toBe(2);
+      expect(body.total).toBe(3);
+      expect(body.products.map((p) => p.sku)).toEqual(['ADDON-A']);
+    });
+
+    it('returns 400 for invalid type', async () => {
+      const res = await app.fetch(new Request('http://localhost/?type=bundle'));
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /catalog/:sku', () => {
+    it('returns a product', async () => {
+      const res = await app.fetch(new Request('http://localhost/PLAN-A'));
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as { product: ProductView };
+      expect(body.product.sku).toBe('PLAN-A');
+      expect(body.product.priceWithTax).toEqual({ amount: 1130, currency: 'CAD' });
+    });
+
+    it('returns 400 for a product not priced in the currency', async () => {
+      const res = await app.fetch(new Request('http://localhost/ADDON-A?currency=USD'));
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as ErrorResponse;
+      expect(body.error.code).toBe('PRICE_UNAVAILABLE');
+    });
+
+    it('returns inactive products', async () => {
+      const res = await app.fetch(new Request('http://localhost/PLAN-OLD'));
+
+      const body = (await res.json()) as { product: ProductView };
+      expect(body.product.active).toBe(false);
+    });
+
+    it('returns 404 for unknown SKU', async () => {
+      const res = await app.fetch(new Request('http://localhost/NOPE'));
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Catalog, catalog, loadCatalog } from '../src/config/catalog.js';
+import { UnknownSkuError } from '../src/lib/errors.js';
+import type { Product } from '../src/models/types.js';
+
+describe('Catalog', () => {
+  const products: Product[] = [
+    {
+      sku: 'PLAN-A',
+      name: 'Plan A',
+      type: 'plan',
+      chargeType: 'recurring',
+      active: true,
+      prices: { CAD: 2000, USD: 1500 },
+    },
+    {
+      sku: 'PLAN-OLD',
+      name: 'Old Plan',
+      type: 'plan',
+      chargeType: 'recurring',
+      active: false,
+      prices: { CAD: 1000 },
+    },
+  ];
+
+  describe('requireActive', () => {
+    it('returns active products', () => {
+      const result = new Catalog(products).requireActive('PLAN-A');
+      expect(result.prices.CAD).toBe(2000);
+    });
+
+    it('rejects unknown SKUs', () => {
+      expect(() => new Catalog(products).requireActive('PLAN-B')).toThrow(
+        UnknownSkuError
+      );
+    });
+
+    it('rejects inactive SKUs', () => {
+      expect(() => new Catalog(products).requireActive('PLAN-OLD')).toThrow(
+        UnknownSkuError
+      );
+    });
+  });
+
+  describe('get', () => {
+    it('returns inactive products for pricing existing carts', () => {
+      expect(new Catalog(products).get('PLAN-OLD')?.prices.CAD).toBe(1000);
+    });
+  });
+
+  it('lists currencies any product is priced in', () => {
+    expect(new Catalog(products).currencies()).toEqual(['CAD', 'USD']);
+  });
+
+  it('rejects duplicate SKUs', () => {
+    expect(() => new Catalog([products[0], products[0]])).toThrow(
+      /Duplicate SKU/
+    );
+  });
+
+  describe('loadCatalog', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'catalog-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('loads products from a JSON file', () => {
+      const path = join(dir, 'catalog.json');
+      writeFileSync(path, JSON.stringify({ products }));
+
+      expect(loadCatalog(path).list()).toEqual(products);
+    });
+
+    it('rejects products with an unknown type', () => {
+      const path = join(dir, 'catalog.json');
+      writeFileSync(
+        path,
+        JSON.stringify({ products: [{ ...products[0], type: 'bundle' }] })
+      );
+
+      expect(() => loadCatalog(path)).toThrow(/type must be one of/);
+    });
+
+    it('rejects products without a charge type', () => {
+      const path = join(dir, 'catalog.json');
+      writeFileSync(
+        path,
+        JSON.stringify({ products: [{ ...products[0], chargeType: 'weekly' }] })
+      );
+
+      expect(() => loadCatalog(path)).toThrow(/chargeType must be one of/);
+    });
+
+    it('rejects non-integer prices', () => {
+      const path = join(dir, 'catalog.json');
+      writeFileSync(
+        path,
+        JSON.stringify({ products: [{ ...products[0], prices: { CAD: 19.99 } }] })
+      );
+
+      expect(() => loadCatalog(path)).toThrow(/price/);
+    });
+
+    it('rejects invalid currency codes', () => {
+      const path = join(dir, 'catalog.json');
+      writeFileSync(
+        path,
+        JSON.stringify({ products: [{ ...products[0], prices: { cad: 2000 } }] })
+      );
+
+      expect(() => loadCatalog(path)).toThrow(/ISO 4217/);
+    });
+  });
+
+  it('loads the bundled default catalog', () => {
+    expect(catalog.get('PLAN-5G-PLUS')?.type).toBe('plan');
+  });
+});
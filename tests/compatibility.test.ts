@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { checkCompatibility, newViolations } from '../src/models/compatibility.js';
+import { loadCompatibilityRules } from '../src/config/compatibility.js';
+import type { CartItem } from '../src/models/types.js';
+
+describe('Compatibility', () => {
+  const item = (sku: string, quantity = 1, lineId?: string): CartItem => ({
+    itemId: `${sku}-${lineId}`,
+    sku,
+    quantity,
+    ...(lineId && { lineId }),
+  });
+
+  describe('checkCompatibility', () => {
+    it('accepts a plan with its add-ons', () => {
+      expect(
+        checkCompatibility([item('PLAN-5G-PLUS'), item('ADDON-ROAM'), item('ADDON-DATA')])
+      ).toEqual([]);
+    });
+
+    it('requires a plan for add-ons', () => {
+      expect(checkCompatibility([item('ADDON-ROAM')])).toEqual([
+        {
+          ruleId: 'ADDON-REQUIRES-PLAN',
+          message: 'Add-ons require a plan',
+          skus: ['ADDON-ROAM'],
+        },
+      ]);
+    });
+
+    it('allows only one plan', () => {
+      const violations = checkCompatibility([item('PLAN-BASIC'), item('PLAN-5G-PLUS')]);
+
+      expect(violations.map((v) => v.ruleId)).toEqual(['ONE-PLAN-PER-LINE']);
+      expect(violations[0].skus).toEqual(['PLAN-BASIC', 'PLAN-5G-PLUS']);
+    });
+
+    it('checks each line separately', () => {
+      const violations = checkCompatibility([
+        item('PLAN-BASIC', 1, 'line-1'),
+        item('PLAN-5G-PLUS', 1, 'line-2'),
+        item('ADDON-ROAM', 1, 'line-3'),
+      ]);
+
+      expect(violations).toEqual([
+        {
+          ruleId: 'ADDON-REQUIRES-PLAN',
+          message: 'Add-ons require a plan',
+          lineId: 'line-3',
+          skus: ['ADDON-ROAM'],
+        },
+      ]);
+    });
+
+    it('treats quantities of the same cart-level plan as one plan', () => {
+      expect(checkCompatibility([item('PLAN-BASIC', 2)])).toEqual([]);
+    });
+
+    it('allows a single unit of one plan on a line', () => {
+      expect(checkCompatibility([item('PLAN-5G-PLUS', 3, 'line-1')])).toEqual([
+        {
+          ruleId: 'ONE-PLAN-PER-LINE',
+          message: 'Only one plan per line',
+          lineId: 'line-1',
+          skus: ['PLAN-5G-PLUS'],
+        },
+      ]);
+    });
+
+    it('restricts add-ons to specific plans', () => {
+      const violations = checkCompatibility([item('PLAN-BASIC'), item('ADDON-DATA')]);
+
+      expect(violations.map((v) => v.ruleId)).toEqual(['DATA-BOOST-5G-ONLY']);
+    });
+
+    it('reports every broken rule', () => {
+      expect(
+        checkCompatibility([item('ADDON-DATA')]).map((v) => v.ruleId)
+      ).toEqual(['ADDON-REQUIRES-PLAN', 'DATA-BOOST-5G-ONLY']);
+    });
+  });
+
+  describe('newViolations', () => {
+    it('ignores violations the cart already had', () => {
+      const before = checkCompatibility([item('ADDON-ROAM')]);
+      const after = checkCompatibility([item('ADDON-ROAM'), item('ACC-CASE')]);
+
+      expect(newViolations(before, after)).toEqual([]);
+    });
+
+    it('reports violations that grew to new SKUs', () => {
+      const before = checkCompatibility([item('ADDON-ROAM')]);
+      const after = checkCompatibility([item('ADDON-ROAM'), item('ADDON-DATA')]);
+
+      expect(newViolations(before, after).map((v) => v.ruleId)).toEqual([
+        'ADDON-REQUIRES-PLAN',
+        'DATA-BOOST-5G-ONLY',
+      ]);
+    });
+  });
+
+  describe('loadCompatibilityRules', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'compatibility-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('rejects unknown rule types', () => {
+      const path = join(dir, 'rules.json');
+      writeFileSync(
+        path,
+        JSON.stringify({ rules: [{ id: 'X', description: 'x', type: 'forbids' }] })
+      );
+
+      expect(() => loadCompatibilityRules(path)).toThrow(/unknown rule type/);
+    });
+
+    it('rejects empty selectors', () => {
+      const path = join(dir, 'rules.json');
+      writeFileSync(
+        path,
+        JSON.stringify({
+          rules: [{ id: 'X', description: 'x', type: 'exclusive', among: {} }],
+        })
+      );
+
+      expect(() => loadCompatibilityRules(path)).toThrow(/skus or productTypes/);
+    });
+  });
+});
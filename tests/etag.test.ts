@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { formatEtag, parseIfMatch } from '../src/lib/etag.js';
+import { PreconditionFailedError } from '../src/lib/errors.js';
+
+describe('ETag', () => {
+  describe('formatEtag', () => {
+    it('formats a strong ETag', () => {
+      expect(formatEtag(3)).toBe('"3"');
+    });
+  });
+
+  describe('parseIfMatch', () => {
+    it('returns undefined when header is absent', () => {
+      expect(parseIfMatch(undefined)).toBeUndefined();
+    });
+
+    it('returns undefined for wildcard', () => {
+      expect(parseIfMatch('*')).toBeUndefined();
+    });
+
+    it('parses strong and weak ETags', () => {
+      expect(parseIfMatch('"7"')).toBe(7);
+      expect(parseIfMatch('W/"7"')).toBe(7);
+    });
+
+    it('rejects values that cannot match', () => {
+      expect(() => parseIfMatch('"abc"')).toThrow(PreconditionFailedError);
+      expect(() => parseIfMatch('7')).toThrow(PreconditionFailedError);
+    });
+  });
+});
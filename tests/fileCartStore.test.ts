@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileCartStore } from '../src/clients/fileCartStore.js';
+import { createCart, mergeItem } from '../src/models/cart.js';
+import { NotFoundError } from '../src/lib/errors.js';
+
+describe('FileCartStore', () => {
+  let dir: string;
+  let filePath: string;
+  let store: FileCartStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    dir = mkdtempSync(join(tmpdir(), 'cart-store-'));
+    filePath = join(dir, 'carts.json');
+    store = new FileCartStore(filePath, 900_000, 60_000, 100, 50);
+  });
+
+  afterEach(() => {
+    store.stopSweeper();
+    rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe('persistence', () => {
+    it('writes a snapshot on create', async () => {
+      await store.create(createCart('test-id', 900_000));
+
+      expect(existsSync(filePath)).toBe(true);
+    });
+
+    it('restores carts after restart', async () => {
+      const cart = mergeItem(createCart('test-id', 900_000), 'PLAN-BASIC', 2);
+      await store.create(cart);
+
+      const restarted = new FileCartStore(filePath, 900_000);
+      const restored = await restarted.get('test-id');
+
+      expect(restored).not.toBeNull();
+      expect(restored?.items).toEqual(cart.items);
+      expect(restored?.createdAt).toBeInstanceOf(Date);
+      expect(restored?.expiresAt).toBeInstanceOf(Date);
+    });
+
+    it('persists updates', async () => {
+      const cart = createCart('test-id', 900_000);
+      await store.create(cart);
+      await store.update(mergeItem(cart, 'PLAN-BASIC', 3));
+
+      const restarted = new FileCartStore(filePath, 900_000);
+      const restored = await restarted.get('test-id');
+
+      expect(restored?.items[0].quantity).toBe(3);
+    });
+
+    it('persists deletes', async () => {
+      await store.create(createCart('test-id', 900_000));
+      await store.delete('test-id');
+
+      const restarted = new FileCartStore(filePath, 900_000);
+      expect(restarted.size()).toBe(0);
+    });
+
+    it('skips carts that expired while stopped', async () => {
+      await store.create(createCart('test-id', 900_000));
+
+      vi.advanceTimersByTime(900_001);
+
+      const restarted = new FileCartStore(filePath, 900_000);
+      expect(restarted.size()).toBe(0);
+    });
+  });
+
+  describe('TTL semantics', () => {
+    it('returns null for expired cart', async () => {
+      await store.create(createCart('test-id', 900_000));
+
+      vi.advanceTimersByTime(900_001);
+
+      expect(await store.get('test-id')).toBeNull();
+      expect(store.size()).toBe(0);
+    });
+
+    it('throws NotFoundError when updating expired cart', async () => {
+      const cart = createCart('test-id', 900_000);
+      await store.create(cart);
+
+      vi.advanceTimersByTime(900_001);
+
+      await expect(store.update(cart)).rejects.toThrow(NotFoundError);
+
+      const restarted = new FileCartStore(filePath, 900_000);
+      expect(restarted.size()).toBe(0);
+    });
+
+    it('sweeper evicts expired carts from disk', async () => {
+      await store.create(createCart('test-id', 900_000));
+      store.startSweeper();
+
+      vi.advanceTimersByTime(960_000);
+
+      const restarted = new FileCartStore(filePath, 900_000);
+      expect(restarted.size()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  billedAmounts,
+  installmentAmounts,
+  installmentPlan,
+} from '../src/models/financing.js';
+import type { CartItem } from '../src/models/types.js';
+
+describe('Financing', () => {
+  const financed = (months: number, downPayment: number, quantity = 1): CartItem => ({
+    itemId: 'item-1',
+    sku: 'DEVICE-PHONE-X',
+    quantity,
+    payment: { type: 'installments', months, downPayment },
+  });
+
+  describe('installmentAmounts', () => {
+    it('splits evenly when the amount divides', () => {
+      expect(installmentAmounts(2400, 24)).toEqual(Array(24).fill(100));
+    });
+
+    it('puts leftover cents on the earliest months', () => {
+      const amounts = installmentAmounts(1000, 3);
+
+      expect(amounts).toEqual([334, 333, 333]);
+    });
+  });
+
+  describe('billedAmounts', () => {
+    it('bills paid-in-full items by their charge type', () => {
+      const device = { itemId: '1', sku: 'DEVICE-PHONE-X', quantity: 1 };
+      const plan = { itemId: '2', sku: 'PLAN-BASIC', quantity: 2 };
+
+      expect(billedAmounts(device, 'CAD')).toEqual({ oneTime: 99900, recurring: 0 });
+      expect(billedAmounts(plan, 'CAD')).toEqual({ oneTime: 0, recurring: 3000 });
+    });
+
+    it('bills the down payment today and the first installment monthly', () => {
+      expect(billedAmounts(financed(36, 9900), 'CAD')).toEqual({
+        oneTime: 9900,
+        recurring: 2500, // 90000 / 36
+      });
+    });
+
+    it('takes discounts off the amount financed before the down payment', () => {
+      expect(billedAmounts(financed(24, 9900), 'CAD', 90000)).toEqual({
+        oneTime: 9900,
+        recurring: 0,
+      });
+      expect(billedAmounts(financed(24, 9900), 'CAD', 94900)).toEqual({
+        oneTime: 5000,
+        recurring: 0,
+      });
+    });
+  });
+
+  describe('installmentPlan', () => {
+    it('returns nothing for items paid in full', () => {
+      expect(
+        installmentPlan({ itemId: '1', sku: 'DEVICE-PHONE-X', quantity: 1 }, 'CAD')
+      ).toBeUndefined();
+    });
+
+    it('schedules every unit financed', () => {
+      const plan = installmentPlan(financed(24, 9900, 2), 'USD');
+
+      expect(plan).toMatchObject({
+        months: 24,
+        downPayment: { amount: 19800, currency: 'USD' },
+        financed: { amount: 140000, currency: 'USD' }, // 2 * (79900 - 9900)
+      });
+      expect(plan?.schedule[0]).toEqual({
+        month: 1,
+        amount: { amount: 5834, currency: 'USD' },
+      });
+      expect(plan?.schedule[23].month).toBe(24);
+      expect(
+        plan?.schedule.reduce((sum, installment) => sum + installment.amount.amount, 0)
+      ).toBe(140000);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SalesforceCartClient } from '../src/clients/salesforceCartClient.js';
+import { IdempotencyStore } from '../src/clients/idempotencyStore.js';
+import { CartService } from '../src/services/cart.service.js';
+import { KeyRing } from '../src/lib/keyRing.js';
+import { createCartRoutes } from '../src/routes/cart.routes.js';
+import type { Cart, CartResponse } from '../src/models/types.js';
+import type { ErrorResponse } from '../src/lib/errors.js';
+
+describe('Idempotency', () => {
+  let client: SalesforceCartClient;
+  let store: IdempotencyStore;
+  let app: ReturnType<typeof createCartRoutes>;
+  const KEYS = new KeyRing({ test: 'test-secret-min-32-chars-long-key' }, 'test');
+
+  const addItem = (cartId: string, key: string, body: object) =>
+    app.fetch(
+      new Request(`http://localhost/${cartId}/items`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': key },
+        body: JSON.stringify(body),
+      })
+    );
+
+  const createCart = async (): Promise<Cart> => {
+    const res = await app.fetch(new Request('http://localhost/', { method: 'POST' }));
+    return ((await res.json()) as CartResponse).cart;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    client = new SalesforceCartClient(900_000, 60_000, 100, 50);
+    store = new IdempotencyStore(60_000);
+    const service = new CartService(client, 900_000, KEYS, 3600_000);
+    app = createCartRoutes(service, store);
+  });
+
+  afterEach(() => {
+    client.stopSweeper();
+    client.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('replays the first response for a retried add', async () => {
+    const cart = await createCart();
+
+    const first = await addItem(cart.id, 'key-1', { sku: 'PLAN-BASIC', quantity: 2 });
+    const retry = await addItem(cart.id, 'key-1', { sku: 'PLAN-BASIC', quantity: 2 });
+
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(retry.headers.get('ETag')).toBe(first.headers.get('ETag'));
+    expect(await retry.json()).toEqual(await first.json());
+
+    const stored = await client.get(cart.id);
+    expect(stored?.items[0].quantity).toBe(2);
+  });
+
+  it('replays POST /cart without creating a second cart', async () => {
+    const create = () =>
+      app.fetch(
+        new Request('http://localhost/', {
+          method: 'POST',
+          headers: { 'Idempotency-Key': 'create-1' },
+        })
+      );
+
+    const first = (await (await create()).json()) as CartResponse;
+    const retry = await create();
+
+    expect(retry.status).toBe(201);
+    expect(((await retry.json()) as CartResponse).cart.id).toBe(first.cart.id);
+    expect(client.size()).toBe(1);
+  });
+
+  it('returns 422 when a key is reused with a different body', async () => {
+    const cart = await createCart();
+
+    await addItem(cart.id, 'key-1', { sku: 'PLAN-BASIC', quantity: 2 });
+    const res = await addItem(cart.id, 'key-1', { sku: 'PLAN-BASIC', quantity: 3 });
+
+    expect(res.status).toBe(422);
+    const body = (await res.json()) as ErrorResponse;
+    expect(body.error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+  });
+
+  it('replays error responses', async () => {
+    const cart = await createCart();
+
+    const first = await addItem(cart.id, 'key-1', { sku: 'NOPE', quantity: 1 });
+    const retry = await addItem(cart.id, 'key-1', { sku: 'NOPE', quantity: 1 });
+
+    expect(first.status).toBe(400);
+    expect(retry.status).toBe(400);
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+  });
+
+  it('executes again once the key expires', async () => {
+    const cart = await createCart();
+
+    await addItem(cart.id, 'key-1', { sku: 'PLAN-BASIC', quantity: 2 });
+    vi.advanceTimersByTime(60_001);
+    const res = await addItem(cart.id, 'key-1', { sku: 'PLAN-BASIC', quantity: 2 });
+
+    expect(res.headers.get('Idempotent-Replayed')).toBeNull();
+    expect(((await res.json()) as CartResponse).cart.items[0].quantity).toBe(4);
+  });
+
+  it('ignores requests without a key', async () => {
+    const cart = await createCart();
+
+    await app.fetch(
+      new Request(`http://localhost/${cart.id}/items`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sku: 'PLAN-BASIC', quantity: 1 }),
+      })
+    );
+
+    expect(store.size()).toBe(0);
+  });
+
+  it('returns 400 for an oversized key', async () => {
+    const cart = await createCart();
+
+    const res = await addItem(cart.id, 'k'.repeat(256), {
+      sku: 'PLAN-BASIC',
+      quantity: 1,
+    });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('IdempotencyStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports pending keys until completed', () => {
+    const store = new IdempotencyStore(1_000);
+    store.begin('k', 'fp');
+
+    expect(store.get('k')?.response).toBeNull();
+
+    store.complete('k', { status: 200, headers: {}, body: '{}' });
+    expect(store.get('k')?.response?.status).toBe(200);
+  });
+
+  it('prunes expired records on insert', () => {
+    const store = new IdempotencyStore(1_000);
+    store.begin('a', 'fp');
+    store.begin('b', 'fp');
+
+    vi.advanceTimersByTime(1_001);
+    store.begin('c', 'fp');
+
+    expect(store.size()).toBe(1);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryOrderStore } from '../src/clients/orderStore.js';
+import { OrderService } from '../src/services/order.service.js';
+import { createOrderRoutes } from '../src/routes/order.routes.js';
+import { createOrder } from '../src/models/order.js';
+import { createCart, mergeItem, setOwner } from '../src/models/cart.js';
+import { ConflictError, ForbiddenError } from '../src/lib/errors.js';
+import type { Order } from '../src/models/types.js';
+
+describe('Orders', () => {
+  const cart = mergeItem(createCart('cart-1', 900_000), 'PLAN-BASIC', 2);
+
+  describe('createOrder', () => {
+    it('re-quotes lines and totals from the catalog', () => {
+      const order = createOrder('order-1', cart);
+
+      expect(order.id).toBe('order-1');
+      expect(order.cartId).toBe('cart-1');
+      expect(order.lines[0]).toMatchObject({
+        name: 'Basic Talk & Text',
+        chargeType: 'recurring',
+        unitPrice: { amount: 1500, currency: 'CAD' },
+      });
+      expect(order.totals).toEqual(cart.totals);
+    });
+  });
+
+  describe('InMemoryOrderStore', () => {
+    let store: InMemoryOrderStore;
+
+    beforeEach(() => {
+      store = new InMemoryOrderStore();
+    });
+
+    it('stores orders that cannot be changed', async () => {
+      const order = createOrder('order-1', cart);
+      const stored = await store.create(order);
+
+      expect(Object.isFrozen(stored)).toBe(true);
+      expect(Object.isFrozen(stored.lines[0])).toBe(true);
+      expect(() => {
+        (stored.lines[0] as { quantity: number }).quantity = 5;
+      }).toThrow(TypeError);
+
+      order.lines[0].quantity = 5;
+      expect((await store.get('order-1'))?.lines[0].quantity).toBe(2);
+    });
+
+    it('rejects duplicate order IDs', async () => {
+      await store.create(createOrder('order-1', cart));
+
+      await expect(store.create(createOrder('order-1', cart))).rejects.toThrow(
+        ConflictError
+      );
+    });
+  });
+
+  describe('GET /orders/:id', () => {
+    it('returns a stored order', async () => {
+      const store = new InMemoryOrderStore();
+      await store.create(createOrder('order-1', cart));
+      const app = createOrderRoutes(new OrderService(store));
+
+      const res = await app.fetch(new Request('http://localhost/order-1'));
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as { order: Order };
+      expect(body.order.id).toBe('order-1');
+    });
+
+    it("returns 403 for an order from someone else's cart", async () => {
+      const store = new InMemoryOrderStore();
+      await store.create(createOrder('order-1', setOwner(cart, 'alice')));
+      const service = new OrderService(store);
+
+      await expect(service.getOrder('order-1')).rejects.toThrow(ForbiddenError);
+      await expect(service.getOrder('order-1', { customerId: 'bob' })).rejects.toThrow(
+        ForbiddenError
+      );
+      expect((await service.getOrder('order-1', { customerId: 'alice' })).ownerId).toBe(
+        'alice'
+      );
+    });
+
+    it('returns 404 for unknown orders', async () => {
+      const app = createOrderRoutes(new OrderService(new InMemoryOrderStore()));
+
+      const res = await app.fetch(new Request('http://localhost/nope'));
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { allocatePromotions, resolvePromotions } from '../src/models/promotions.js';
+import { isCouponValidAt } from '../src/config/promotions.js';
+import type { CartItem, Promotion } from '../src/models/types.js';
+
+describe('Promotions', () => {
+  const item = (sku: string, quantity: number): CartItem => ({
+    itemId: sku,
+    sku,
+    quantity,
+  });
+
+  const promo = (rule: Promotion['rule']): Promotion => ({
+    id: 'TEST',
+    description: 'Test promotion',
+    automatic: true,
+    rule,
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('allocatePromotions', () => {
+    it('applies percentage off targeted product types', () => {
+      const { discounts } = allocatePromotions(
+        [item('PLAN-BASIC', 1), item('ADDON-ROAM', 2)],
+        [{ promotion: promo({ type: 'percentage', percent: 50, productTypes: ['addon'] }) }],
+        'CAD'
+      );
+
+      expect(discounts[0].amount.amount).toBe(500);
+    });
+
+    it('caps fixed amount at the eligible subtotal', () => {
+      const { discounts } = allocatePromotions(
+        [item('ADDON-DATA', 1)],
+        [{ promotion: promo({ type: 'fixed', amounts: { CAD: 1000 }, skus: ['ADDON-DATA'] }) }],
+        'CAD'
+      );
+
+      expect(discounts[0].amount.amount).toBe(300);
+    });
+
+    it('skips fixed amounts in currencies they do not define', () => {
+      const { discounts } = allocatePromotions(
+        [item('PLAN-BASIC', 1)],
+        [{ promotion: promo({ type: 'fixed', amounts: { CAD: 500 } }) }],
+        'USD'
+      );
+
+      expect(discounts).toEqual([]);
+    });
+
+    it('gives free units for buy X get Y', () => {
+      const rule = { type: 'buyXGetY' as const, sku: 'ADDON-DATA', buy: 2, get: 1 };
+
+      const discountsFor = (quantity: number) =>
+        allocatePromotions([item('ADDON-DATA', quantity)], [{ promotion: promo(rule) }], 'CAD')
+          .discounts;
+
+      expect(discountsFor(2)).toEqual([]);
+      expect(discountsFor(6)[0].amount).toEqual({ amount: 600, currency: 'CAD' });
+    });
+
+    it('discounts each complete bundle', () => {
+      const rule = {
+        type: 'bundle' as const,
+        skus: ['PLAN-5G-PLUS', 'ADDON-ROAM'],
+        percent: 20,
+      };
+
+      const { discounts } = allocatePromotions(
+        [item('PLAN-5G-PLUS', 2), item('ADDON-ROAM', 1)],
+        [{ promotion: promo(rule) }],
+        'CAD'
+      );
+
+      expect(discounts[0].amount.amount).toBe(600); // one bundle: 20% of 3000
+    });
+
+    it('discounts targeted items once enough lines carry them', () => {
+      const rule = {
+        type: 'multiLine' as const,
+        minLines: 2,
+        percent: 10,
+        productTypes: ['plan' as const],
+      };
+      const onLine = (sku: string, lineId: string): CartItem => ({
+        ...item(sku, 1),
+        itemId: `${sku}-${lineId}`,
+        lineId,
+      });
+
+      expect(
+        allocatePromotions(
+          [onLine('PLAN-BASIC', 'a'), onLine('ADDON-ROAM', 'b'), item('PLAN-BASIC', 1)],
+          [{ promotion: promo(rule) }],
+          'CAD'
+        ).discounts
+      ).toEqual([]);
+
+      const { discounts } = allocatePromotions(
+        [onLine('PLAN-BASIC', 'a'), onLine('PLAN-5G-PLUS', 'b'), onLine('ADDON-ROAM', 'b')],
+        [{ promotion: promo(rule) }],
+        'CAD'
+      );
+      expect(discounts[0].amount.amount).toBe(400); // 10% of 1500 + 2500
+    });
+
+    it('never discounts more than the subtotal', () => {
+      const { discounts } = allocatePromotions(
+        [item('ADDON-DATA', 1)],
+        [
+          { promotion: promo({ type: 'percentage', percent: 100 }) },
+          { promotion: promo({ type: 'fixed', amounts: { CAD: 500 } }) },
+        ],
+        'CAD'
+      );
+
+      expect(discounts).toHaveLength(1);
+      expect(discounts[0].amount.amount).toBe(300);
+    });
+  });
+
+  describe('resolvePromotions', () => {
+    it('includes automatic promotions and valid coupons', () => {
+      const active = resolvePromotions(['WELCOME10'], new Date());
+
+      expect(active.map((a) => a.promotion.id)).toContain('BUNDLE-5G-ROAM');
+      expect(active.find((a) => a.code === 'WELCOME10')).toBeDefined();
+    });
+
+    it('skips coupons outside their validity window', () => {
+      const active = resolvePromotions(['CASE10'], new Date('2027-06-01T00:00:00Z'));
+
+      expect(active.find((a) => a.code === 'CASE10')).toBeUndefined();
+    });
+  });
+
+  describe('isCouponValidAt', () => {
+    const coupon = {
+      code: 'X',
+      promotionId: 'TEST',
+      validFrom: new Date('2026-01-01T00:00:00Z'),
+      validUntil: new Date('2026-12-31T23:59:59Z'),
+    };
+
+    it('accepts dates inside the window', () => {
+      expect(isCouponValidAt(coupon, new Date('2026-06-01T00:00:00Z'))).toBe(true);
+    });
+
+    it('rejects dates outside the window', () => {
+      expect(isCouponValidAt(coupon, new Date('2025-12-31T00:00:00Z'))).toBe(false);
+      expect(isCouponValidAt(coupon, new Date('2027-01-01T00:00:00Z'))).toBe(false);
+    });
+  });
+});
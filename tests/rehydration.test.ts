@@ -1,13 +1,21 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   generateToken,
+  encryptToken,
   verifyToken,
   createRehydrationToken,
+  createShareToken,
+  verifyShareToken,
+  TOKEN_SCHEMA_VERSION,
 } from '../src/lib/rehydration.js';
+import { createHmac } from 'crypto';
 import { TokenError } from '../src/lib/errors.js';
+import { KeyRing } from '../src/lib/keyRing.js';
+import { loadRehydrationKeys, loadTokenFormat } from '../src/config/rehydration.js';
 
 describe('Rehydration', () => {
   const SECRET = 'test-secret-min-32-chars-long-key';
+  const KEYS = new KeyRing({ test: SECRET }, 'test');
   const MAX_AGE_MS = 3600_000;
 
   beforeEach(() => {
@@ -25,8 +33,8 @@ describe('Rehydration', () => {
         items: [{ sku: 'SKU-001', quantity: 2 }],
       };
 
-      const token = generateToken(payload, SECRET);
-      const verified = verifyToken(token, SECRET, MAX_AGE_MS);
+      const token = generateToken(payload, KEYS);
+      const verified = verifyToken(token, KEYS, MAX_AGE_MS);
 
       expect(verified).toEqual(payload);
     });
@@ -37,10 +45,10 @@ describe('Rehydration', () => {
         items: [{ sku: 'SKU-001', quantity: 2 }],
       };
 
-      const token = generateToken(payload, SECRET);
+      const token = generateToken(payload, KEYS);
       const tamperedToken = token.slice(0, -5) + 'XXXXX';
 
-      expect(() => verifyToken(tamperedToken, SECRET, MAX_AGE_MS)).toThrow(
+      expect(() => verifyToken(tamperedToken, KEYS, MAX_AGE_MS)).toThrow(
         TokenError
       );
     });
@@ -51,23 +59,32 @@ describe('Rehydration', () => {
         items: [{ sku: 'SKU-001', quantity: 2 }],
       };
 
-      const token = generateToken(payload, SECRET);
+      const token = generateToken(payload, KEYS);
 
       // Advance time past max age
       vi.advanceTimersByTime(MAX_AGE_MS + 1);
 
-      expect(() => verifyToken(token, SECRET, MAX_AGE_MS)).toThrow(TokenError);
+      expect(() => verifyToken(token, KEYS, MAX_AGE_MS)).toThrow(TokenError);
     });
 
     it('rejects malformed token', () => {
-      expect(() => verifyToken('not-a-valid-token', SECRET, MAX_AGE_MS)).toThrow(
+      expect(() => verifyToken('not-a-valid-token', KEYS, MAX_AGE_MS)).toThrow(
         TokenError
       );
     });
 
     it('rejects token with invalid payload', () => {
       const token = 'invalid.payload';
-      expect(() => verifyToken(token, SECRET, MAX_AGE_MS)).toThrow(TokenError);
+      expect(() => verifyToken(token, KEYS, MAX_AGE_MS)).toThrow(TokenError);
+    });
+
+    it('rejects a header or payload that is not an object', () => {
+      const nul = Buffer.from('null').toString('base64url');
+
+      expect(() => verifyToken(`${nul}.${nul}.x`, KEYS, MAX_AGE_MS)).toThrow(
+        'Token header invalid'
+      );
+      expect(() => verifyToken(`${nul}.x`, KEYS, MAX_AGE_MS)).toThrow(TokenError);
     });
 
     it('rejects token with future timestamp', () => {
@@ -76,9 +93,197 @@ describe('Rehydration', () => {
         items: [{ sku: 'SKU-001', quantity: 2 }],
       };
 
-      const token = generateToken(payload, SECRET);
+      const token = generateToken(payload, KEYS);
+
+      expect(() => verifyToken(token, KEYS, MAX_AGE_MS)).toThrow(TokenError);
+    });
+  });
+
+  describe('key rotation', () => {
+    const OLD = 'old-secret-min-32-chars-long-key!';
+    const NEW = 'new-secret-min-32-chars-long-key!';
+    const payload = () => ({ iat: Date.now(), items: [{ sku: 'SKU-001', quantity: 1 }] });
+
+    it('names the signing key in the token header', () => {
+      const token = generateToken(payload(), new KeyRing({ k1: OLD, k2: NEW }, 'k2'));
+      const header = JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString());
+
+      expect(header).toEqual({ alg: 'HS256', kid: 'k2' });
+    });
+
+    it('accepts tokens signed with a key that is no longer active', () => {
+      const token = generateToken(payload(), new KeyRing({ k1: OLD }, 'k1'));
+      const rotated = new KeyRing({ k1: OLD, k2: NEW }, 'k2');
+
+      expect(verifyToken(token, rotated, MAX_AGE_MS).items).toHaveLength(1);
+    });
+
+    it('rejects tokens signed with a key that was removed', () => {
+      const token = generateToken(payload(), new KeyRing({ k1: OLD }, 'k1'));
+
+      expect(() =>
+        verifyToken(token, new KeyRing({ k2: NEW }, 'k2'), MAX_AGE_MS)
+      ).toThrow(/signing key unknown/);
+    });
+
+    it('rejects a header naming a different key than signed the token', () => {
+      const ring = new KeyRing({ k1: OLD, k2: NEW }, 'k1');
+      const [, encoded, signature] = generateToken(payload(), ring).split('.');
+      const forged = Buffer.from(JSON.stringify({ alg: 'HS256', kid: 'k2' })).toString(
+        'base64url'
+      );
+      const token = `${forged}.${encoded}.${signature}`;
+
+      expect(() => verifyToken(token, ring, MAX_AGE_MS)).toThrow(/signature invalid/);
+    });
+
+    it('accepts tokens issued before key ids against any key', () => {
+      const encoded = Buffer.from(JSON.stringify(payload())).toString('base64url');
+      const signature = createHmac('sha256', OLD).update(encoded).digest('base64url');
+
+      const ring = new KeyRing({ k1: OLD, k2: NEW }, 'k2');
+
+      expect(verifyToken(`${encoded}.${signature}`, ring, MAX_AGE_MS).items).toHaveLength(1);
+    });
+
+    it('rejects short secrets and a missing active key', () => {
+      expect(() => new KeyRing({ k1: 'short' }, 'k1')).toThrow(/at least 32/);
+      expect(() => new KeyRing({ k1: OLD }, 'k2')).toThrow(/not in the key ring/);
+    });
+  });
+
+  describe('encrypted tokens', () => {
+    const payload = () => ({ iat: Date.now(), items: [{ sku: 'SKU-001', quantity: 2 }] });
+
+    it('round-trips without exposing the payload', () => {
+      const token = encryptToken(payload(), KEYS);
+
+      expect(token.startsWith('v2.')).toBe(true);
+      expect(token.split('.')).toHaveLength(5);
+      for (const part of token.split('.')) {
+        expect(Buffer.from(part, 'base64url').toString()).not.toContain('SKU-001');
+      }
+      expect(verifyToken(token, KEYS, MAX_AGE_MS)).toEqual(payload());
+    });
+
+    it('uses a fresh IV for every token', () => {
+      expect(encryptToken(payload(), KEYS)).not.toBe(encryptToken(payload(), KEYS));
+    });
+
+    it('rejects a tampered ciphertext', () => {
+      const parts = encryptToken(payload(), KEYS).split('.');
+      const ciphertext = Buffer.from(parts[3], 'base64url');
+      ciphertext[0] ^= 1;
+      parts[3] = ciphertext.toString('base64url');
+
+      expect(() => verifyToken(parts.join('.'), KEYS, MAX_AGE_MS)).toThrow(
+        /could not be decrypted/
+      );
+    });
+
+    it('rejects a tampered header', () => {
+      const ring = new KeyRing({ k1: SECRET, k2: `${SECRET}-v2` }, 'k1');
+      const parts = encryptToken(payload(), ring).split('.');
+      parts[1] = Buffer.from(JSON.stringify({ alg: 'A256GCM', kid: 'k2' })).toString(
+        'base64url'
+      );
+
+      expect(() => verifyToken(parts.join('.'), ring, MAX_AGE_MS)).toThrow(TokenError);
+    });
+
+    it('rejects a header that is not an object', () => {
+      const nul = Buffer.from('null').toString('base64url');
+
+      expect(() => verifyToken(`v2.${nul}.a.b.c`, KEYS, MAX_AGE_MS)).toThrow(
+        'Token header invalid'
+      );
+    });
+
+    it('decrypts with a key that is no longer active', () => {
+      const token = encryptToken(payload(), KEYS);
+      const rotated = new KeyRing({ test: SECRET, next: `${SECRET}-next` }, 'next');
+
+      expect(verifyToken(token, rotated, MAX_AGE_MS).items).toHaveLength(1);
+    });
+
+    it('accepts signed and encrypted tokens side by side', () => {
+      const items = [{ sku: 'SKU-001', quantity: 1 }];
+      const signed = createRehydrationToken({ items }, KEYS);
+      const encrypted = createRehydrationToken({ items }, KEYS, 'encrypted');
+
+      expect(verifyToken(signed, KEYS, MAX_AGE_MS).items).toEqual(items);
+      expect(verifyToken(encrypted, KEYS, MAX_AGE_MS).items).toEqual(items);
+    });
+
+    it('expires like signed tokens', () => {
+      const token = encryptToken(payload(), KEYS);
+
+      vi.advanceTimersByTime(MAX_AGE_MS + 1);
+
+      expect(() => verifyToken(token, KEYS, MAX_AGE_MS)).toThrow(/expired/);
+    });
+  });
+
+  describe('share tokens', () => {
+    it('round-trips the share id until the link expires', () => {
+      const token = createShareToken('share-1', Date.now() + 1000, KEYS);
+
+      expect(verifyShareToken(token, KEYS)).toBe('share-1');
+
+      vi.advanceTimersByTime(1001);
+      expect(() => verifyShareToken(token, KEYS)).toThrow('Share link expired');
+    });
+
+    it('is not interchangeable with rehydration tokens', () => {
+      const share = createShareToken('share-1', Date.now() + 1000, KEYS);
+      const rehydration = createRehydrationToken({ items: [] }, KEYS);
+
+      expect(() => verifyToken(share, KEYS, MAX_AGE_MS)).toThrow('Token header invalid');
+      expect(() => verifyShareToken(rehydration, KEYS)).toThrow('Token header invalid');
+    });
+  });
 
-      expect(() => verifyToken(token, SECRET, MAX_AGE_MS)).toThrow(TokenError);
+  describe('loadTokenFormat', () => {
+    it('defaults to signed and rejects unknown formats', () => {
+      expect(loadTokenFormat({})).toBe('signed');
+      expect(loadTokenFormat({ REHYDRATION_TOKEN_FORMAT: 'encrypted' })).toBe('encrypted');
+      expect(() => loadTokenFormat({ REHYDRATION_TOKEN_FORMAT: 'jwe' })).toThrow(
+        /REHYDRATION_TOKEN_FORMAT/
+      );
+    });
+  });
+
+  describe('loadRehydrationKeys', () => {
+    it('reads kid:secret pairs and the active kid', () => {
+      const ring = loadRehydrationKeys({
+        REHYDRATION_KEYS: `k1:${SECRET},k2:${SECRET}-v2`,
+        REHYDRATION_ACTIVE_KID: 'k2',
+      });
+
+      expect(ring.activeKid).toBe('k2');
+      expect(ring.get('k1')).toBe(SECRET);
+    });
+
+    it('requires an active kid when there are several keys', () => {
+      expect(() =>
+        loadRehydrationKeys({ REHYDRATION_KEYS: `k1:${SECRET},k2:${SECRET}-v2` })
+      ).toThrow(/REHYDRATION_ACTIVE_KID/);
+    });
+
+    it('falls back to REHYDRATION_SECRET as the default key', () => {
+      const ring = loadRehydrationKeys({ REHYDRATION_SECRET: SECRET });
+
+      expect(ring.activeKid).toBe('default');
+      expect(ring.activeSecret()).toBe(SECRET);
+    });
+
+    it('refuses the development secret in production', () => {
+      expect(() => loadRehydrationKeys({ NODE_ENV: 'production' })).toThrow(
+        /Refusing to start in production/
+      );
+      expect(
+        loadRehydrationKeys({ NODE_ENV: 'production', REHYDRATION_SECRET: SECRET }).activeKid
+      ).toBe('default');
     });
   });
 
@@ -89,18 +294,41 @@ describe('Rehydration', () => {
         { sku: 'SKU-002', quantity: 3 },
       ];
 
-      const token = createRehydrationToken(items, SECRET);
-      const verified = verifyToken(token, SECRET, MAX_AGE_MS);
+      const token = createRehydrationToken({ items }, KEYS);
+      const verified = verifyToken(token, KEYS, MAX_AGE_MS);
 
       expect(verified.items).toEqual(items);
       expect(verified.iat).toBeDefined();
     });
 
+    it('stamps the schema version on the full cart state', () => {
+      const state = {
+        currency: 'USD',
+        customer: { email: 'a@example.com' },
+        lines: [{ lineId: 'l1', label: 'Mine', msisdn: '+15550001111', portIn: false }],
+        items: [{ sku: 'SKU-001', quantity: 1, lineId: 'l1' }],
+        coupons: ['WELCOME10'],
+      };
+
+      const verified = verifyToken(createRehydrationToken(state, KEYS), KEYS, MAX_AGE_MS);
+
+      expect(verified).toMatchObject({ v: TOKEN_SCHEMA_VERSION, ...state });
+    });
+
+    it('rejects tokens from a newer schema version', () => {
+      const token = generateToken(
+        { v: TOKEN_SCHEMA_VERSION + 1, iat: Date.now(), items: [] },
+        KEYS
+      );
+
+      expect(() => verifyToken(token, KEYS, MAX_AGE_MS)).toThrow(/schema version/);
+    });
+
     it('creates token with empty items', () => {
       const items: Array<{ sku: string; quantity: number }> = [];
 
-      const token = createRehydrationToken(items, SECRET);
-      const verified = verifyToken(token, SECRET, MAX_AGE_MS);
+      const token = createRehydrationToken({ items }, KEYS);
+      const verified = verifyToken(token, KEYS, MAX_AGE_MS);
 
       expect(verified.items).toEqual([]);
     });
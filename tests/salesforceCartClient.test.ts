@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SalesforceCartClient } from '../src/clients/salesforceCartClient.js';
 import { createCart } from '../src/models/cart.js';
-import { NotFoundError } from '../src/lib/errors.js';
+import { CartStateError, ConflictError, NotFoundError } from '../src/lib/errors.js';
 
 describe('SalesforceCartClient', () => {
   let client: SalesforceCartClient;
@@ -88,6 +88,25 @@ describe('SalesforceCartClient', () => {
       await expect(client.update(cart)).rejects.toThrow(NotFoundError);
     });
 
+    it('increments version on update', async () => {
+      const cart = createCart('test-id', 900_000);
+      await client.create(cart);
+
+      const updated = await client.update(cart);
+
+      expect(updated.version).toBe(2);
+      expect((await client.get('test-id'))?.version).toBe(2);
+    });
+
+    it('throws ConflictError for stale writes', async () => {
+      const cart = createCart('test-id', 900_000);
+      await client.create(cart);
+      await client.update(cart);
+
+      // Second write based on the same (now stale) read
+      await expect(client.update(cart)).rejects.toThrow(ConflictError);
+    });
+
     it('throws NotFoundError for expired cart', async () => {
       const cart = createCart('test-id', 900_000);
       await client.create(cart);
@@ -110,6 +129,52 @@ describe('SalesforceCartClient', () => {
     });
   });
 
+  describe('expiry grace period', () => {
+    beforeEach(() => {
+      client = new SalesforceCartClient(900_000, 60_000, 100, 50, 300_000);
+    });
+
+    it('returns expired carts as EXPIRED during the grace period', async () => {
+      const cart = createCart('test-id', 900_000);
+      await client.create(cart);
+
+      vi.advanceTimersByTime(900_001);
+
+      const expired = await client.get('test-id');
+      expect(expired?.status).toBe('EXPIRED');
+      expect(expired?.expiresAt).toEqual(cart.expiresAt); // not refreshed
+    });
+
+    it('rejects updates during the grace period', async () => {
+      const cart = createCart('test-id', 900_000);
+      await client.create(cart);
+
+      vi.advanceTimersByTime(900_001);
+
+      await expect(client.update(cart)).rejects.toThrow(CartStateError);
+    });
+
+    it('evicts carts after the grace period', async () => {
+      await client.create(createCart('test-id', 900_000));
+
+      vi.advanceTimersByTime(1_200_001);
+
+      expect(await client.get('test-id')).toBeNull();
+      expect(client.size()).toBe(0);
+    });
+
+    it('sweeper keeps carts in their grace period', async () => {
+      await client.create(createCart('test-id', 900_000));
+      client.startSweeper();
+
+      vi.advanceTimersByTime(960_000);
+      expect(client.size()).toBe(1);
+
+      vi.advanceTimersByTime(300_000);
+      expect(client.size()).toBe(0);
+    });
+  });
+
   describe('delete', () => {
     it('removes a cart', async () => {
       const cart = createCart('test-id', 900_000);
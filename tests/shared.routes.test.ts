@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { SalesforceCartClient } from '../src/clients/salesforceCartClient.js';
+import { SharedCartStore } from '../src/clients/sharedCartStore.js';
+import { CartService } from '../src/services/cart.service.js';
+import { KeyRing } from '../src/lib/keyRing.js';
+import { verifyToken } from '../src/lib/rehydration.js';
+import { createCartRoutes } from '../src/routes/cart.routes.js';
+import { createSharedRoutes } from '../src/routes/shared.routes.js';
+import type { RehydrationResponse, SharedCart } from '../src/models/types.js';
+import type { ErrorResponse } from '../src/lib/errors.js';
+
+describe('Shared Cart Routes', () => {
+  let client: SalesforceCartClient;
+  let service: CartService;
+  let app: Hono;
+  const KEYS = new KeyRing({ test: 'test-secret-min-32-chars-long-key' }, 'test');
+  const SHARE_TTL_MS = 86_400_000;
+
+  const shareCart = async (): Promise<{ cartId: string; shareToken: string }> => {
+    const { cart } = await service.createCart();
+    await service.addLine(cart.id, { label: 'Mom', msisdn: '+14165550100', portIn: false });
+    const lineId = (await service.getCart(cart.id)).lines[0].lineId;
+    await service.addItem(cart.id, 'PLAN-BASIC', 1, { lineId });
+    await service.updateCustomerInfo(cart.id, { email: 'mom@example.com', firstName: 'Ada' });
+
+    const res = await app.fetch(
+      new Request(`http://localhost/cart/${cart.id}/share`, { method: 'POST' })
+    );
+    expect(res.status).toBe(201);
+    const body = (await res.json()) as { shareToken: string; expiresAt: string };
+    expect(body.expiresAt).toBe(new Date(Date.now() + SHARE_TTL_MS).toISOString());
+    return { cartId: cart.id, shareToken: body.shareToken };
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    client = new SalesforceCartClient(900_000, 60_000, 100, 50);
+    service = new CartService(
+      client,
+      900_000,
+      KEYS,
+      3600_000,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      new SharedCartStore(SHARE_TTL_MS)
+    );
+    app = new Hono();
+    app.route('/cart', createCartRoutes(service));
+    app.route('/shared', createSharedRoutes(service));
+  });
+
+  afterEach(() => {
+    client.stopSweeper();
+    client.clear();
+    vi.restoreAllMocks();
+  });
+
+  describe('GET /shared/:token', () => {
+    it('returns the snapshot without the cart id, customer or line numbers', async () => {
+      const { cartId, shareToken } = await shareCart();
+
+      const res = await app.fetch(new Request(`http://localhost/shared/${shareToken}`));
+
+      expect(res.status).toBe(200);
+      const { cart } = (await res.json()) as { cart: SharedCart };
+      expect(cart.items).toHaveLength(1);
+      expect(cart.lines[0]).toEqual({
+        lineId: expect.any(String),
+        label: 'Mom',
+        portIn: false,
+      });
+      expect(cart.totals.monthly.subtotal.amount).toBe(1500);
+      expect(JSON.stringify(cart)).not.toMatch(/mom@example\.com|Ada|4165550100/);
+      expect(JSON.stringify(cart)).not.toContain(cartId);
+    });
+
+    it('keeps showing the cart as it was when shared', async () => {
+      const { cartId, shareToken } = await shareCart();
+      await service.addItem(cartId, 'ACC-CASE', 1);
+
+      const res = await app.fetch(new Request(`http://localhost/shared/${shareToken}`));
+
+      expect(((await res.json()) as { cart: SharedCart }).cart.items).toHaveLength(1);
+    });
+
+    it('keeps working after the cart itself expires', async () => {
+      const { shareToken } = await shareCart();
+      vi.advanceTimersByTime(900_001);
+
+      const res = await app.fetch(new Request(`http://localhost/shared/${shareToken}`));
+
+      expect(res.status).toBe(200);
+    });
+
+    it('returns 401 once the link expires', async () => {
+      const { shareToken } = await shareCart();
+      vi.advanceTimersByTime(SHARE_TTL_MS + 1);
+
+      const res = await app.fetch(new Request(`http://localhost/shared/${shareToken}`));
+
+      expect(res.status).toBe(401);
+      expect(((await res.json()) as ErrorResponse).error.message).toBe('Share link expired');
+    });
+
+    it('returns 401 for a rehydration token', async () => {
+      const { rehydrationToken } = await service.createCart();
+
+      const res = await app.fetch(new Request(`http://localhost/shared/${rehydrationToken}`));
+
+      expect(res.status).toBe(401);
+    });
+
+    it('returns 401 for a malformed share token', async () => {
+      const res = await app.fetch(new Request('http://localhost/shared/bnVsbA.bnVsbA.x'));
+
+      expect(res.status).toBe(401);
+      expect(((await res.json()) as ErrorResponse).error.code).toBe('TOKEN_ERROR');
+    });
+  });
+
+  describe('POST /shared/:token/adopt', () => {
+    it("creates the caller's own cart without the sharer's customer details", async () => {
+      const { cartId, shareToken } = await shareCart();
+
+      const res = await app.fetch(
+        new Request(`http://localhost/shared/${shareToken}/adopt`, { method: 'POST' })
+      );
+
+      expect(res.status).toBe(201);
+      const body = (await res.json()) as RehydrationResponse;
+      expect(body.cart.id).not.toBe(cartId);
+      expect(body.cart.customer).toBeUndefined();
+      expect(body.cart.items[0].lineId).toBe(body.cart.lines[0].lineId);
+      expect(body.rehydrationToken).toBeDefined();
+      expect(body.warnings).toEqual([]);
+      expect(res.headers.get('ETag')).toBe('"1"');
+    });
+
+    it("leaves out the sharer's line numbers", async () => {
+      const { shareToken } = await shareCart();
+
+      const res = await app.fetch(
+        new Request(`http://localhost/shared/${shareToken}/adopt`, { method: 'POST' })
+      );
+
+      const body = (await res.json()) as RehydrationResponse;
+      expect(body.cart.lines).toEqual([
+        expect.objectContaining({ label: 'Mom', portIn: true }),
+      ]);
+      expect(body.cart.lines[0].msisdn).toBeUndefined();
+      const payload = verifyToken(body.rehydrationToken, KEYS, 3600_000);
+      expect(payload.lines?.[0].msisdn).toBeUndefined();
+      expect(JSON.stringify(payload)).not.toContain('+14165550100');
+    });
+
+    it('gives every adopter a separate cart', async () => {
+      const { shareToken } = await shareCart();
+      const adopt = () =>
+        app.fetch(
+          new Request(`http://localhost/shared/${shareToken}/adopt`, { method: 'POST' })
+        );
+
+      const first = (await (await adopt()).json()) as RehydrationResponse;
+      const second = (await (await adopt()).json()) as RehydrationResponse;
+
+      expect(second.cart.id).not.toBe(first.cart.id);
+    });
+  });
+});
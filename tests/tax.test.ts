@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  allocateDiscount,
+  calculateTaxes,
+  isSupportedJurisdiction,
+  resolveJurisdiction,
+} from '../src/models/tax.js';
+
+const cad = (amount: number) => ({ amount, currency: 'CAD' });
+
+describe('Tax', () => {
+  describe('resolveJurisdiction', () => {
+    it('uses country and province from the address', () => {
+      expect(resolveJurisdiction({ country: 'CA', province: 'QC' })).toBe('CA-QC');
+    });
+
+    it('falls back to the default jurisdiction', () => {
+      expect(resolveJurisdiction()).toBe('CA-ON');
+    });
+  });
+
+  describe('isSupportedJurisdiction', () => {
+    it('knows every Canadian province and territory', () => {
+      const codes = ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'];
+      for (const code of codes) {
+        expect(isSupportedJurisdiction(`CA-${code}`)).toBe(true);
+      }
+    });
+
+    it('rejects unknown jurisdictions', () => {
+      expect(isSupportedJurisdiction('US-NY')).toBe(false);
+    });
+  });
+
+  describe('calculateTaxes', () => {
+    it('returns a single HST line in Ontario', () => {
+      expect(calculateTaxes({ plan: 1000 }, 'CA-ON', 'CAD')).toEqual([
+        { name: 'HST', rate: 0.13, amount: cad(130) },
+      ]);
+    });
+
+    it('returns GST and QST lines in Quebec', () => {
+      expect(calculateTaxes({ plan: 1000 }, 'CA-QC', 'CAD')).toEqual([
+        { name: 'GST', rate: 0.05, amount: cad(50) },
+        { name: 'QST', rate: 0.09975, amount: cad(100) },
+      ]);
+    });
+
+    it('skips exempt product types', () => {
+      const taxes = calculateTaxes({ plan: 1000, device: 10000 }, 'CA-MB', 'CAD');
+
+      expect(taxes).toEqual([
+        { name: 'GST', rate: 0.05, amount: cad(550) },
+        { name: 'RST', rate: 0.07, amount: cad(70) }, // device exempt
+      ]);
+    });
+  });
+
+  describe('allocateDiscount', () => {
+    it('spreads the discount in proportion to amounts', () => {
+      expect(allocateDiscount({ plan: 3000, addon: 1000 }, 400)).toEqual({
+        plan: 2700,
+        addon: 900,
+      });
+    });
+
+    it('keeps the allocated total exact after rounding', () => {
+      const result = allocateDiscount({ plan: 1000, addon: 1000, device: 1000 }, 100);
+      const total = Object.values(result).reduce((sum, v) => sum + (v ?? 0), 0);
+
+      expect(total).toBe(2900);
+    });
+
+    it('returns amounts unchanged without a discount', () => {
+      expect(allocateDiscount({ plan: 1000 }, 0)).toEqual({ plan: 1000 });
+    });
+  });
+});
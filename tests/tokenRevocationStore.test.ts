@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TokenRevocationStore } from '../src/clients/tokenRevocationStore.js';
+
+describe('TokenRevocationStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('revokes tokens issued before, not after, in the same millisecond', () => {
+    const store = new TokenRevocationStore(1_000);
+    const before = store.generation('cart-1');
+
+    store.revoke('cart-1');
+    const after = store.generation('cart-1');
+
+    expect(store.isRevoked('cart-1', before)).toBe(true);
+    expect(store.isRevoked('cart-1', after)).toBe(false);
+    expect(store.isRevoked('cart-1')).toBe(true);
+    expect(store.isRevoked('cart-2')).toBe(false);
+  });
+
+  it('keeps a revocation while tokens issued after it can still be used', () => {
+    const store = new TokenRevocationStore(1_000);
+    store.revoke('cart-1');
+
+    vi.advanceTimersByTime(800);
+    const issued = store.generation('cart-1');
+    vi.advanceTimersByTime(800);
+    store.revoke('cart-1');
+
+    expect(store.isRevoked('cart-1', issued)).toBe(true);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TtlStore } from '../src/clients/ttlStore.js';
+
+describe('TtlStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('stamps records with their expiry', () => {
+    const store = new TtlStore<{ value: string; expiresAt: number }>(1_000);
+
+    const record = store.set('k', { value: 'v' });
+
+    expect(record).toEqual({ value: 'v', expiresAt: Date.now() + 1_000 });
+    expect(store.get('k')).toBe(record);
+  });
+
+  it('stops returning a record once it expires', () => {
+    const store = new TtlStore<{ expiresAt: number }>(1_000);
+    store.set('k', {});
+
+    vi.advanceTimersByTime(1_001);
+
+    expect(store.get('k')).toBeNull();
+    expect(store.size()).toBe(0);
+  });
+
+  it('restarts the TTL when a key is written again', () => {
+    const store = new TtlStore<{ expiresAt: number }>(1_000);
+    store.set('a', {});
+    store.set('b', {});
+    vi.advanceTimersByTime(500);
+    store.set('a', {});
+
+    vi.advanceTimersByTime(501);
+    store.set('c', {});
+
+    expect(store.get('a')).not.toBeNull();
+    expect(store.size()).toBe(2);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   validateEmail,
   validateSku,
@@ -6,8 +6,30 @@ import {
   validateAddItemRequest,
   validateCustomerRequest,
   validateRehydrationRequest,
+  validateCatalogQuery,
+  validateCreateCartRequest,
+  validateStatusRequest,
+  validateMergeRequest,
+  validateUpdateItemRequest,
+  validateLineRequest,
+  validateUpdateLineRequest,
 } from '../src/lib/validation.js';
-import { ValidationError } from '../src/lib/errors.js';
+import { ErrorDetail, ValidationError } from '../src/lib/errors.js';
+
+/**
+ * Details of the ValidationError a validator throws
+ */
+function detailsOf(validate: () => unknown): ErrorDetail[] {
+  try {
+    validate();
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return error.details ?? [];
+    }
+    throw error;
+  }
+  throw new Error('Expected a ValidationError');
+}
 
 describe('Validation', () => {
   describe('validateEmail', () => {
@@ -64,6 +86,87 @@ describe('Validation', () => {
       const body = { sku: 'SKU-001', quantity: 0 };
       expect(() => validateAddItemRequest(body)).toThrow(ValidationError);
     });
+
+    it('accepts installment financing and drops full payment', () => {
+      const payment = { type: 'installments', months: 24, downPayment: 5000 };
+
+      expect(validateAddItemRequest({ sku: 'SKU-001', quantity: 1, payment })).toEqual({
+        sku: 'SKU-001',
+        quantity: 1,
+        payment,
+      });
+      expect(
+        validateAddItemRequest({ sku: 'SKU-001', quantity: 1, payment: { type: 'full' } })
+      ).toEqual({ sku: 'SKU-001', quantity: 1 });
+    });
+
+    it('rejects unsupported financing terms', () => {
+      const body = {
+        sku: 'SKU-001',
+        quantity: 1,
+        payment: { type: 'installments', months: 12, downPayment: 0 },
+      };
+      expect(() => validateAddItemRequest(body)).toThrow(/24, 36/);
+    });
+
+    it('rejects a negative down payment', () => {
+      const body = {
+        sku: 'SKU-001',
+        quantity: 1,
+        payment: { type: 'installments', months: 24, downPayment: -1 },
+      };
+      expect(() => validateAddItemRequest(body)).toThrow(ValidationError);
+    });
+
+    it('reports every invalid field at once', () => {
+      const body = {
+        sku: '',
+        quantity: 1.5,
+        lineId: 7,
+        payment: { type: 'installments', months: 12, downPayment: -1 },
+      };
+
+      expect(detailsOf(() => validateAddItemRequest(body))).toEqual([
+        { path: '/sku', rule: 'required', message: 'SKU must be non-empty' },
+        { path: '/quantity', rule: 'range', message: 'Quantity must be an integer >= 1' },
+        { path: '/lineId', rule: 'type', message: 'lineId must be a non-empty string' },
+        { path: '/payment/months', rule: 'enum', message: 'payment.months must be one of 24, 36' },
+        {
+          path: '/payment/downPayment',
+          rule: 'range',
+          message: 'payment.downPayment must be a non-negative integer',
+        },
+      ]);
+    });
+
+    it('points at the whole request when the body is not an object', () => {
+      expect(detailsOf(() => validateAddItemRequest('nope'))).toEqual([
+        { path: '', rule: 'type', message: 'Request body must be an object' },
+      ]);
+    });
+  });
+
+  describe('validateUpdateItemRequest', () => {
+    it('accepts positive quantity', () => {
+      expect(validateUpdateItemRequest({ quantity: 2 })).toEqual({ quantity: 2 });
+    });
+
+    it('accepts zero to remove the item', () => {
+      expect(validateUpdateItemRequest({ quantity: 0 })).toEqual({ quantity: 0 });
+    });
+
+    it('rejects negative and fractional quantities', () => {
+      expect(() => validateUpdateItemRequest({ quantity: -1 })).toThrow(
+        ValidationError
+      );
+      expect(() => validateUpdateItemRequest({ quantity: 1.5 })).toThrow(
+        ValidationError
+      );
+    });
+
+    it('rejects missing quantity', () => {
+      expect(() => validateUpdateItemRequest({})).toThrow(ValidationError);
+    });
   });
 
   describe('validateCustomerRequest', () => {
@@ -89,6 +192,102 @@ describe('Validation', () => {
       const body = { email: 'not-an-email' };
       expect(() => validateCustomerRequest(body)).toThrow(ValidationError);
     });
+
+    it('accepts a service address in a supported jurisdiction', () => {
+      const body = {
+        serviceAddress: { country: 'CA', province: 'QC', city: 'Montréal' },
+      };
+      expect(validateCustomerRequest(body)).toEqual(body);
+    });
+
+    it('rejects a service address without tax rules', () => {
+      const body = { serviceAddress: { country: 'US', province: 'CA' } };
+      expect(() => validateCustomerRequest(body)).toThrow(/jurisdiction/);
+    });
+
+    it('trims names and rejects empty or overlong ones', () => {
+      expect(validateCustomerRequest({ firstName: '  Ada ' })).toEqual({ firstName: 'Ada' });
+      expect(() => validateCustomerRequest({ firstName: '   ' })).toThrow(/firstName/);
+      expect(() => validateCustomerRequest({ lastName: 'x'.repeat(101) })).toThrow(/lastName/);
+    });
+
+    it('rejects emails the old regex let through', () => {
+      const emails = [
+        'a@b.c',
+        'a..b@example.com',
+        'a@-example.com',
+        `${'a'.repeat(65)}@example.com`,
+      ];
+      for (const email of emails) {
+        expect(() => validateCustomerRequest({ email })).toThrow(ValidationError);
+      }
+      expect(validateCustomerRequest({ email: "o'brien+cart@mail.example.ca" })).toEqual({
+        email: "o'brien+cart@mail.example.ca",
+      });
+    });
+
+    it('requires phone numbers in E.164', () => {
+      expect(validateCustomerRequest({ phone: '+14165550100' })).toEqual({ phone: '+14165550100' });
+      expect(() => validateCustomerRequest({ phone: '416-555-0100' })).toThrow(/E\.164/);
+    });
+
+    it('accepts a real past date of birth only', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-06-15T12:00:00Z'));
+
+      expect(validateCustomerRequest({ dateOfBirth: '2000-02-29' })).toEqual({
+        dateOfBirth: '2000-02-29',
+      });
+      expect(() => validateCustomerRequest({ dateOfBirth: '2001-02-29' })).toThrow(/YYYY-MM-DD/);
+      expect(() => validateCustomerRequest({ dateOfBirth: '15/06/1990' })).toThrow(/YYYY-MM-DD/);
+      expect(() => validateCustomerRequest({ dateOfBirth: '2026-06-16' })).toThrow(/today/);
+
+      vi.useRealTimers();
+    });
+
+    it('validates postal codes per country and normalises them', () => {
+      const body = {
+        serviceAddress: { country: 'CA', province: 'ON', postalCode: 'k1a 0b1' },
+        billingAddress: { country: 'US', province: 'NY', postalCode: '10001-1234' },
+      };
+
+      expect(validateCustomerRequest(body)).toEqual({
+        serviceAddress: { country: 'CA', province: 'ON', postalCode: 'K1A 0B1' },
+        billingAddress: { country: 'US', province: 'NY', postalCode: '10001-1234' },
+      });
+    });
+
+    it('accepts a billing address outside the supported tax jurisdictions', () => {
+      const body = { billingAddress: { country: 'GB', province: 'ENG', postalCode: 'SW1A 1AA' } };
+      expect(validateCustomerRequest(body)).toEqual(body);
+    });
+
+    it('reports every invalid field with a JSON pointer and rule', () => {
+      const body = {
+        email: 'nope',
+        phone: '555',
+        serviceAddress: { country: 'CA', province: 'ON', postalCode: '12345', city: '' },
+      };
+
+      expect(detailsOf(() => validateCustomerRequest(body))).toEqual([
+        { path: '/email', rule: 'format', message: 'email must be a valid email address' },
+        {
+          path: '/phone',
+          rule: 'format',
+          message: 'phone must be in E.164 format, e.g. +14165550100',
+        },
+        {
+          path: '/serviceAddress/city',
+          rule: 'length',
+          message: 'serviceAddress.city must be 1-100 characters',
+        },
+        {
+          path: '/serviceAddress/postalCode',
+          rule: 'format',
+          message: 'serviceAddress.postalCode must be a valid CA postal code, e.g. K1A 0B1',
+        },
+      ]);
+    });
   });
 
   describe('validateRehydrationRequest', () => {
@@ -109,5 +308,144 @@ describe('Validation', () => {
       expect(() => validateRehydrationRequest(body)).toThrow(ValidationError);
     });
   });
-});
 
+  describe('validateCreateCartRequest', () => {
+    it('defaults the currency when there is no body', () => {
+      expect(validateCreateCartRequest(undefined)).toEqual({ currency: 'CAD' });
+    });
+
+    it('accepts a supported currency', () => {
+      expect(validateCreateCartRequest({ currency: 'USD' })).toEqual({
+        currency: 'USD',
+      });
+    });
+
+    it('rejects unsupported currency', () => {
+      expect(() => validateCreateCartRequest({ currency: 'EUR' })).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('validateLineRequest', () => {
+    it('defaults portIn to false', () => {
+      expect(validateLineRequest({ label: ' Mom ', msisdn: '+14165550100' })).toEqual({
+        label: 'Mom',
+        msisdn: '+14165550100',
+        portIn: false,
+      });
+    });
+
+    it('requires msisdn unless porting in', () => {
+      expect(() => validateLineRequest({ label: 'Mom' })).toThrow(ValidationError);
+      expect(validateLineRequest({ label: 'Mom', portIn: true })).toEqual({
+        label: 'Mom',
+        portIn: true,
+      });
+    });
+
+    it('rejects a malformed msisdn', () => {
+      expect(() => validateLineRequest({ label: 'Mom', msisdn: '555-0100' })).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('validateUpdateLineRequest', () => {
+    it('requires at least one field', () => {
+      expect(() => validateUpdateLineRequest({})).toThrow(ValidationError);
+    });
+  });
+
+  describe('validateStatusRequest', () => {
+    it('accepts statuses a client can request', () => {
+      expect(validateStatusRequest({ status: 'ABANDONED' })).toEqual({
+        status: 'ABANDONED',
+      });
+    });
+
+    it('rejects server-managed statuses', () => {
+      expect(() => validateStatusRequest({ status: 'EXPIRED' })).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('validateMergeRequest', () => {
+    it('defaults the strategy to sum', () => {
+      expect(validateMergeRequest({ sourceCartId: 'cart-1' })).toEqual({
+        sourceCartId: 'cart-1',
+        strategy: 'sum',
+      });
+    });
+
+    it('rejects unknown strategies and a missing source', () => {
+      expect(() =>
+        validateMergeRequest({ sourceCartId: 'cart-1', strategy: 'min' })
+      ).toThrow(/strategy must be one of/);
+      expect(() => validateMergeRequest({ strategy: 'max' })).toThrow(ValidationError);
+    });
+  });
+
+  describe('validateCatalogQuery', () => {
+    it('applies defaults', () => {
+      expect(validateCatalogQuery({})).toEqual({
+        type: undefined,
+        jurisdiction: 'CA-ON',
+        currency: 'CAD',
+        page: 1,
+        pageSize: 20,
+      });
+    });
+
+    it('parses type and pagination', () => {
+      const result = validateCatalogQuery({
+        type: 'addon',
+        currency: 'USD',
+        page: '2',
+        pageSize: '5',
+      });
+
+      expect(result).toEqual({
+        type: 'addon',
+        jurisdiction: 'CA-ON',
+        currency: 'USD',
+        page: 2,
+        pageSize: 5,
+      });
+    });
+
+    it('rejects unknown product type', () => {
+      expect(() => validateCatalogQuery({ type: 'bundle' })).toThrow(
+        ValidationError
+      );
+    });
+
+    it('rejects unsupported currency', () => {
+      expect(() => validateCatalogQuery({ currency: 'EUR' })).toThrow(
+        ValidationError
+      );
+    });
+
+    it('rejects non-positive page', () => {
+      expect(() => validateCatalogQuery({ page: '0' })).toThrow(ValidationError);
+    });
+
+    it('reports every invalid parameter at once', () => {
+      const query = { type: 'bundle', page: '0', jurisdiction: 'US-CA', currency: 'EUR' };
+
+      expect(detailsOf(() => validateCatalogQuery(query)).map((d) => d.path)).toEqual([
+        '/type',
+        '/page',
+        '/jurisdiction',
+        '/currency',
+      ]);
+    });
+
+    it('rejects oversized pageSize', () => {
+      expect(() => validateCatalogQuery({ pageSize: '101' })).toThrow(
+        ValidationError
+      );
+    });
+  });
+});